@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react'
+import { Navigate, Route, Routes, useLocation, useNavigate } from 'react-router-dom'
 import { blink } from './blink/client'
 import { Sidebar, SidebarContent, SidebarHeader, SidebarMenu, SidebarMenuItem, SidebarMenuButton, SidebarProvider, SidebarTrigger } from './components/ui/sidebar'
 import { Button } from './components/ui/button'
@@ -6,13 +7,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './com
 import { Badge } from './components/ui/badge'
 import { Separator } from './components/ui/separator'
 import { Toaster } from './components/ui/toaster'
-import { Sparkles, Image, Wand2, Layers, Zap, Scissors, Images, Home, Settings, User, Menu } from 'lucide-react'
-import { ImageGenerator } from './components/ImageGenerator'
-import { UnblurTool } from './components/UnblurTool'
-import { BatchGenerator } from './components/BatchGenerator'
-import { UpscalerTool } from './components/UpscalerTool'
-import { BackgroundRemover } from './components/BackgroundRemover'
-import { Gallery } from './components/Gallery'
+import { Sparkles, Image, Home, Settings, User, Menu } from 'lucide-react'
+import { JobsDrawer } from './components/JobsDrawer'
+import { CommandPalette } from './components/CommandPalette'
+import { Dashboard } from './components/Dashboard'
+import { SettingsPage } from './components/SettingsPage'
+import { openBatchJobs } from './lib/batches'
+import { openGallery } from './lib/gallery'
+import { createBlinkGalleryRemote } from './lib/gallery-remote'
+import { startGallerySync } from './lib/gallery-sync'
+import { openPromptTemplates } from './lib/prompt-templates'
+import { tools } from './lib/tools'
 
 interface User {
   id: string
@@ -20,12 +25,11 @@ interface User {
   displayName?: string
 }
 
-type Tool = 'generator' | 'unblur' | 'batch' | 'upscaler' | 'background-remover' | 'gallery'
-
 function App() {
   const [user, setUser] = useState<User | null>(null)
   const [loading, setLoading] = useState(true)
-  const [activeTool, setActiveTool] = useState<Tool>('generator')
+  const location = useLocation()
+  const navigate = useNavigate()
 
   useEffect(() => {
     const unsubscribe = blink.auth.onAuthStateChanged((state) => {
@@ -35,6 +39,28 @@ function App() {
     return unsubscribe
   }, [])
 
+  const userId = user?.id
+
+  useEffect(() => {
+    if (!userId) return
+    return openGallery(userId)
+  }, [userId])
+
+  useEffect(() => {
+    if (!userId) return
+    return startGallerySync(createBlinkGalleryRemote(blink), userId)
+  }, [userId])
+
+  useEffect(() => {
+    if (!userId) return
+    return openPromptTemplates(userId)
+  }, [userId])
+
+  useEffect(() => {
+    if (!userId) return
+    return openBatchJobs(userId)
+  }, [userId])
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5 flex items-center justify-center">
@@ -73,65 +99,11 @@ function App() {
     )
   }
 
-  const tools = [
-    {
-      id: 'generator' as Tool,
-      title: 'AI Image Generator',
-      description: 'Create high-quality images and clipart from text prompts',
-      icon: Sparkles,
-      color: 'from-purple-500 to-pink-500',
-      badge: 'Free'
-    },
-    {
-      id: 'unblur' as Tool,
-      title: 'Unblur Tool',
-      description: 'Enhance and sharpen blurry images with AI',
-      icon: Wand2,
-      color: 'from-blue-500 to-cyan-500',
-      badge: 'Free'
-    },
-    {
-      id: 'batch' as Tool,
-      title: 'Batch Generator',
-      description: 'Generate multiple images at once (1-10 images)',
-      icon: Layers,
-      color: 'from-green-500 to-emerald-500',
-      badge: 'Free'
-    },
-    {
-      id: 'upscaler' as Tool,
-      title: 'AI Upscaler',
-      description: 'Increase image resolution up to 8x with AI',
-      icon: Zap,
-      color: 'from-orange-500 to-red-500',
-      badge: 'Free'
-    },
-    {
-      id: 'background-remover' as Tool,
-      title: 'Background Remover',
-      description: 'Remove backgrounds with precision edge detection',
-      icon: Scissors,
-      color: 'from-indigo-500 to-purple-500',
-      badge: 'Free'
-    },
-    {
-      id: 'gallery' as Tool,
-      title: 'Gallery',
-      description: 'View and manage your generated images',
-      icon: Images,
-      color: 'from-gray-500 to-slate-500',
-      badge: null
-    }
-  ]
+  const isActive = (path: string) => path === '/' ? location.pathname === '/' : location.pathname.startsWith(path)
 
   const sidebarItems = [
-    { icon: Home, label: 'Dashboard', active: activeTool === 'generator' },
-    { icon: Sparkles, label: 'Generator', active: activeTool === 'generator' },
-    { icon: Wand2, label: 'Unblur', active: activeTool === 'unblur' },
-    { icon: Layers, label: 'Batch', active: activeTool === 'batch' },
-    { icon: Zap, label: 'Upscaler', active: activeTool === 'upscaler' },
-    { icon: Scissors, label: 'Background', active: activeTool === 'background-remover' },
-    { icon: Images, label: 'Gallery', active: activeTool === 'gallery' },
+    { icon: Home, label: 'Dashboard', path: '/' },
+    ...tools.map((tool) => ({ icon: tool.icon, label: tool.shortTitle, path: tool.path })),
   ]
 
   return (
@@ -155,22 +127,8 @@ function App() {
               {sidebarItems.map((item, index) => (
                 <SidebarMenuItem key={index}>
                   <SidebarMenuButton 
-                    onClick={() => {
-                      if (item.label === 'Dashboard' || item.label === 'Generator') {
-                        setActiveTool('generator')
-                      } else if (item.label === 'Unblur') {
-                        setActiveTool('unblur')
-                      } else if (item.label === 'Batch') {
-                        setActiveTool('batch')
-                      } else if (item.label === 'Upscaler') {
-                        setActiveTool('upscaler')
-                      } else if (item.label === 'Background') {
-                        setActiveTool('background-remover')
-                      } else if (item.label === 'Gallery') {
-                        setActiveTool('gallery')
-                      }
-                    }}
-                    className={`w-full justify-start ${item.active ? 'bg-primary text-primary-foreground' : ''}`}
+                    onClick={() => navigate(item.path)}
+                    className={`w-full justify-start ${isActive(item.path) ? 'bg-primary text-primary-foreground' : ''}`}
                   >
                     <item.icon className="w-4 h-4 mr-3" />
                     {item.label}
@@ -183,7 +141,10 @@ function App() {
             
             <SidebarMenu>
               <SidebarMenuItem>
-                <SidebarMenuButton>
+                <SidebarMenuButton
+                  onClick={() => navigate('/settings')}
+                  className={`w-full justify-start ${isActive('/settings') ? 'bg-primary text-primary-foreground' : ''}`}
+                >
                   <Settings className="w-4 h-4 mr-3" />
                   Settings
                 </SidebarMenuButton>
@@ -213,6 +174,10 @@ function App() {
                 </p>
               </div>
             </div>
+            <div className="flex items-center gap-2">
+              <CommandPalette />
+              <JobsDrawer />
+            </div>
           </header>
 
           <div className="flex-1 p-6">
@@ -226,29 +191,14 @@ function App() {
               </div>
             </div>
 
-            {activeTool === 'generator' && (
-              <ImageGenerator />
-            )}
-
-            {activeTool === 'unblur' && (
-              <UnblurTool />
-            )}
-
-            {activeTool === 'batch' && (
-              <BatchGenerator />
-            )}
-
-            {activeTool === 'upscaler' && (
-              <UpscalerTool />
-            )}
-
-            {activeTool === 'background-remover' && (
-              <BackgroundRemover />
-            )}
-
-            {activeTool === 'gallery' && (
-              <Gallery />
-            )}
+            <Routes>
+              <Route path="/" element={<Dashboard />} />
+              {tools.map((tool) => (
+                <Route key={tool.id} path={tool.routePath ?? tool.path} element={<tool.component />} />
+              ))}
+              <Route path="/settings" element={<SettingsPage />} />
+              <Route path="*" element={<Navigate to="/" replace />} />
+            </Routes>
           </div>
         </main>
       </div>
@@ -1,9 +1,8 @@
 import { useState, useRef } from 'react'
-import { blink } from '../blink/client'
+import { useLocation } from 'react-router-dom'
 import { Button } from './ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Label } from './ui/label'
-import { Progress } from './ui/progress'
 import { Badge } from './ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { 
@@ -17,6 +16,16 @@ import {
   Layers
 } from 'lucide-react'
 import { useToast } from '../hooks/use-toast'
+import { useJobs } from '../hooks/use-jobs'
+import { JobProgress } from './JobProgress'
+import { useStore } from '../hooks/use-store'
+import { useSettings } from '../hooks/use-settings'
+import { addGalleryImages } from '../lib/gallery'
+import { isCancellation } from '../lib/jobs'
+import { processImage as runProcessImage } from '../lib/process-image'
+import type { ToolLocationState } from '../lib/tools'
+import { saveImage } from '../lib/download'
+import { createStore } from '../lib/store'
 
 interface ProcessedImage {
   id: string
@@ -27,13 +36,21 @@ interface ProcessedImage {
   createdAt: Date
 }
 
+const processedImagesStore = createStore<ProcessedImage[]>([])
+
 export function BackgroundRemover() {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null)
-  const [previewUrl, setPreviewUrl] = useState<string>('')
-  const [mode, setMode] = useState('remove')
-  const [isProcessing, setIsProcessing] = useState(false)
-  const [progress, setProgress] = useState(0)
-  const [processedImages, setProcessedImages] = useState<ProcessedImage[]>([])
+  const location = useLocation()
+  const { settings } = useSettings()
+  // An image handed over from the dashboard or a Reproduce action starts out selected
+  const handoff = location.state as ToolLocationState | null
+  const handoffFile = handoff?.file
+  const [selectedFile, setSelectedFile] = useState<File | null>(handoffFile ?? null)
+  const [previewUrl, setPreviewUrl] = useState<string>(() => handoffFile ? URL.createObjectURL(handoffFile) : '')
+  const [mode, setMode] = useState<string>(handoff?.reproduce?.params.mode ?? settings.backgroundRemover.mode)
+  const processedImages = useStore(processedImagesStore)
+  const { activeJobs } = useJobs('background-remover')
+  const isProcessing = activeJobs.length > 0
+  const currentJob = activeJobs.find(job => job.status === 'running') ?? activeJobs[0]
   const [showComparison, setShowComparison] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const { toast } = useToast()
@@ -65,10 +82,7 @@ export function BackgroundRemover() {
     }
   ]
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
-
+  const selectFile = (file: File) => {
     if (!file.type.startsWith('image/')) {
       toast({
         title: "Invalid file type",
@@ -78,10 +92,10 @@ export function BackgroundRemover() {
       return
     }
 
-    if (file.size > 10 * 1024 * 1024) { // 10MB limit
+    if (file.size > settings.uploads.maxSizeMb * 1024 * 1024) {
       toast({
         title: "File too large",
-        description: "Please select an image smaller than 10MB.",
+        description: `Please select an image smaller than ${settings.uploads.maxSizeMb}MB.`,
         variant: "destructive"
       })
       return
@@ -92,14 +106,15 @@ export function BackgroundRemover() {
     setPreviewUrl(url)
   }
 
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) selectFile(file)
+  }
+
   const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault()
     const file = event.dataTransfer.files[0]
-    if (file && file.type.startsWith('image/')) {
-      setSelectedFile(file)
-      const url = URL.createObjectURL(file)
-      setPreviewUrl(url)
-    }
+    if (file) selectFile(file)
   }
 
   const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
@@ -109,34 +124,19 @@ export function BackgroundRemover() {
   const processImage = async () => {
     if (!selectedFile) return
 
-    setIsProcessing(true)
-    setProgress(0)
-
     try {
-      // Upload original image to storage first
-      const { publicUrl: originalUrl } = await blink.storage.upload(
-        selectedFile,
-        `background-remover/originals/${selectedFile.name}`,
-        { upsert: true }
-      )
-
-      setProgress(30)
-
       const selectedMode = modeOptions.find(m => m.value === mode)
       const prompt = selectedMode?.prompt || modeOptions[0].prompt
 
-      // Use AI to process the background
-      const { data } = await blink.ai.modifyImage({
-        images: [originalUrl],
+      // Upload the original, then use AI to process the background
+      const { originalUrl, resultUrl: processedUrl, blob, provenance } = await runProcessImage({
+        tool: 'background-remover',
+        file: selectedFile,
+        folder: 'background-remover',
         prompt,
-        quality: 'high',
-        n: 1
+        params: { mode }
       })
 
-      setProgress(90)
-
-      const processedUrl = data[0].url
-
       const newProcessedImage: ProcessedImage = {
         id: `${Date.now()}`,
         originalUrl,
@@ -146,8 +146,20 @@ export function BackgroundRemover() {
         createdAt: new Date()
       }
 
-      setProcessedImages(prev => [newProcessedImage, ...prev])
-      setProgress(100)
+      processedImagesStore.set(prev => [newProcessedImage, ...prev])
+      if (settings.autoSaveToGallery) {
+        addGalleryImages([{
+          id: newProcessedImage.id,
+          url: newProcessedImage.processedUrl,
+          prompt,
+          type: 'background-removed',
+          mode: newProcessedImage.mode,
+          filename: newProcessedImage.filename,
+          createdAt: newProcessedImage.createdAt,
+          provenance,
+          blob
+        }])
+      }
 
       toast({
         title: "Background processed successfully!",
@@ -162,30 +174,28 @@ export function BackgroundRemover() {
       }
 
     } catch (error) {
+      if (isCancellation(error)) {
+        toast({
+          title: "Processing cancelled",
+          description: "The background processing was cancelled."
+        })
+        return
+      }
       console.error('Error processing background:', error)
       toast({
         title: "Processing failed",
         description: "Failed to process background. Please try again.",
         variant: "destructive"
       })
-    } finally {
-      setIsProcessing(false)
-      setProgress(0)
     }
   }
 
   const handleDownload = async (imageUrl: string, filename: string, type: 'original' | 'processed', mode?: string) => {
     try {
-      const response = await fetch(imageUrl)
-      const blob = await response.blob()
-      const url = window.URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = type === 'processed' ? `${mode?.toLowerCase().replace(/\s+/g, '-')}-${filename}` : `original-${filename}`
-      document.body.appendChild(a)
-      a.click()
-      window.URL.revokeObjectURL(url)
-      document.body.removeChild(a)
+      await saveImage(imageUrl, {
+        type: type === 'processed' ? mode ?? 'processed' : 'original',
+        name: filename
+      })
       
       toast({
         title: "Download started",
@@ -256,7 +266,7 @@ export function BackgroundRemover() {
                     <ImageIcon className="w-12 h-12 text-muted-foreground mx-auto" />
                     <div>
                       <p className="text-sm font-medium">Click to upload or drag and drop</p>
-                      <p className="text-xs text-muted-foreground">PNG, JPG, JPEG, WebP up to 10MB</p>
+                      <p className="text-xs text-muted-foreground">PNG, JPG, JPEG, WebP up to {settings.uploads.maxSizeMb}MB</p>
                     </div>
                   </div>
                 )}
@@ -281,15 +291,7 @@ export function BackgroundRemover() {
                 </Select>
               </div>
 
-              {isProcessing && (
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between text-sm">
-                    <span>Processing background...</span>
-                    <span>{progress}%</span>
-                  </div>
-                  <Progress value={progress} className="w-full" />
-                </div>
-              )}
+              {currentJob && <JobProgress job={currentJob} title="Processing background" />}
 
               <Button 
                 onClick={processImage} 
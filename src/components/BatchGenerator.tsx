@@ -1,5 +1,5 @@
-import { useState } from 'react'
-import { blink } from '../blink/client'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useLocation, useSearchParams } from 'react-router-dom'
 import { Button } from './ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Input } from './ui/input'
@@ -7,7 +7,6 @@ import { Label } from './ui/label'
 import { Textarea } from './ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { Badge } from './ui/badge'
-import { Progress } from './ui/progress'
 import { Separator } from './ui/separator'
 import { 
   Download, 
@@ -16,40 +15,125 @@ import {
   Copy,
   DownloadCloud,
   Grid3X3,
-  Sparkles
+  Sparkles,
+  RotateCcw,
+  Shuffle,
+  AlertTriangle,
+  FileSpreadsheet,
+  FileJson,
+  X,
+  Clock,
+  Play,
+  ImageDown,
+  CopyPlus
 } from 'lucide-react'
 import { useToast } from '../hooks/use-toast'
-
-interface BatchImage {
-  id: string
-  url: string
-  prompt: string
-  variation: number
-  createdAt: Date
-}
-
-interface BatchJob {
-  id: string
-  basePrompt: string
-  variations: string[]
-  images: BatchImage[]
-  size: string
-  quality: string
-  style: string
-  createdAt: Date
-  status: 'generating' | 'completed' | 'failed'
-}
+import { useJobs } from '../hooks/use-jobs'
+import { JobProgress } from './JobProgress'
+import { NegativePromptField } from './NegativePromptField'
+import { PromptTemplatePanel } from './PromptTemplatePanel'
+import { PromptEnhancer } from './PromptEnhancer'
+import { WildcardLibrary } from './WildcardLibrary'
+import { PromptGridFields } from './PromptGridFields'
+import { useStore } from '../hooks/use-store'
+import { useSettings } from '../hooks/use-settings'
+import { addGalleryImages } from '../lib/gallery'
+import { getImageProvider, type ImageQuality, type ImageSize, type ImageStyle } from '../lib/image-provider'
+import { enqueueJob, isCancellation } from '../lib/jobs'
+import { mapConcurrent } from '../lib/scheduler'
+import { downloadBlob, fetchResultBlob, fetchWithProgress, saveImage } from '../lib/download'
+import { downloadArchive } from '../lib/archive'
+import { createProvenance } from '../lib/provenance'
+import { createVariations, pendingVariationsStore } from '../lib/variations'
+import type { ToolLocationState } from '../lib/tools'
+import { countTemplateExpansions, type PromptTemplate, type TemplateExpansion } from '../lib/prompt-templates'
+import { expandPrompts, type ExpansionMode } from '../lib/dynamic-prompts'
+import { wildcardsStore } from '../lib/wildcards'
+import { parseBatchImport } from '../lib/batch-import'
+import { formatManifestCsv, formatManifestJson, getBatchManifest } from '../lib/batch-manifest'
+import { defaultPromptGrid, getGridCells, getGridShape, renderGridComposite, type PromptGrid } from '../lib/prompt-grid'
+import {
+  addBatchImage,
+  batchJobsStore,
+  getBatchItemImage,
+  getBatchJob,
+  getFailedItemIndexes,
+  getFinishedBatchStatus,
+  getUnfinishedItemIndexes,
+  getResumableItemIndexes,
+  getBatchSources,
+  getBatchTitle,
+  getBatchSetup,
+  getBatchSetupFromProvenance,
+  getBatchSetupFromPrompt,
+  updateBatchItem,
+  updateBatchJob,
+  type BatchImage,
+  type BatchItem,
+  type BatchJob,
+  type BatchSetup
+} from '../lib/batches'
 
 export function BatchGenerator() {
-  const [basePrompt, setBasePrompt] = useState('')
-  const [variations, setVariations] = useState<string[]>([''])
-  const [size, setSize] = useState('1024x1024')
-  const [quality, setQuality] = useState('high')
-  const [style, setStyle] = useState('natural')
-  const [isGenerating, setIsGenerating] = useState(false)
-  const [progress, setProgress] = useState(0)
-  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([])
+  const [searchParams, setSearchParams] = useSearchParams()
+  const location = useLocation()
+  // Opened with ?continue=<batch id> to pick a batch back up, from a
+  // Reproduce action with the provenance of one of its images, or with a
+  // prompt handed over from another tool
+  const [initialSetup] = useState(() => {
+    const id = searchParams.get('continue')
+    const continuedBatch = id ? getBatchJob(id) : undefined
+    if (continuedBatch) return getBatchSetup(continuedBatch)
+    const handoff = location.state as ToolLocationState | null
+    if (handoff?.reproduce) return getBatchSetupFromProvenance(handoff.reproduce)
+    return handoff?.prompt ? getBatchSetupFromPrompt(handoff.prompt) : undefined
+  })
+  const { settings } = useSettings()
+  const [basePrompt, setBasePrompt] = useState(initialSetup?.basePrompt ?? '')
+  const [negativePrompt, setNegativePrompt] = useState(initialSetup?.negativePrompt ?? '')
+  const [variations, setVariations] = useState<string[]>(
+    () => initialSetup?.variations ?? Array<string>(settings.batch.count).fill('')
+  )
+  const [size, setSize] = useState<string>(initialSetup?.size ?? settings.batch.size)
+  const [quality, setQuality] = useState<string>(initialSetup?.quality ?? settings.batch.quality)
+  const [style, setStyle] = useState<string>(initialSetup?.style ?? settings.batch.style)
+  const [imported, setImported] = useState<BatchSetup['imported'] | null>(initialSetup?.imported ?? null)
+  // Set when comparing the base prompt across an XY grid instead of generating variations
+  const [grid, setGrid] = useState<PromptGrid | null>(initialSetup?.grid ?? null)
+  const sheetInputRef = useRef<HTMLInputElement>(null)
+  const [archivingJobId, setArchivingJobId] = useState<string | null>(null)
+  const [exportingGridId, setExportingGridId] = useState<string | null>(null)
+  const [expansionMode, setExpansionMode] = useState<ExpansionMode>('all')
+  const [randomCount, setRandomCount] = useState(() => Math.min(4, settings.batch.maxPrompts))
+  const [seed, setSeed] = useState(() => Date.now())
+  const wildcards = useStore(wildcardsStore)
+  const batchJobs = useStore(batchJobsStore)
+  const pendingVariations = useStore(pendingVariationsStore)
+  const { activeJobs } = useJobs('batch')
+  const isGenerating = activeJobs.length > 0
+  const currentJob = activeJobs.find(job => job.status === 'running') ?? activeJobs[0]
   const { toast } = useToast()
+  const maxPrompts = settings.batch.maxPrompts
+
+  // The preview is exactly what gets generated; the seed only changes on a reroll
+  const expansion = useMemo(
+    () => expandPrompts(getBatchSources(basePrompt, variations), {
+      mode: expansionMode,
+      count: randomCount,
+      limit: maxPrompts,
+      seed,
+      wildcards
+    }),
+    [basePrompt, variations, expansionMode, randomCount, maxPrompts, seed, wildcards]
+  )
+
+  const gridCells = useMemo(
+    () => grid ? getGridCells(basePrompt, grid, { size, quality, style }) : [],
+    [grid, basePrompt, size, quality, style]
+  )
+  // Parameters the grid varies, whose form setting is not used
+  const isComparing = (param: string) => grid?.x.param === param || grid?.y?.param === param
+  const itemCount = grid ? gridCells.length : imported ? imported.rows.length : expansion.prompts.length
 
   const sizeOptions = [
     { value: '1024x1024', label: 'Square (1024×1024)' },
@@ -70,7 +154,7 @@ export function BatchGenerator() {
   ]
 
   const addVariation = () => {
-    if (variations.length < 10) {
+    if (variations.length < maxPrompts) {
       setVariations([...variations, ''])
     }
   }
@@ -87,35 +171,190 @@ export function BatchGenerator() {
     setVariations(newVariations)
   }
 
+  // Generates the given items of a batch, up to the concurrency setting at a time
+  const runBatchItems = async (job: BatchJob, indexes: number[]) => {
+    let succeeded = 0
+    let failed = 0
+
+    try {
+      await enqueueJob({
+        kind: 'generate',
+        tool: 'batch',
+        label: `Batch: ${getBatchTitle(job)}`,
+        run: async ({ signal, setPhase, setProgress }) => {
+          const { concurrency } = settings.batch
+          setPhase('generating', {
+            label: concurrency > 1
+              ? `Generating ${indexes.length} images, ${concurrency} at a time`
+              : `Generating ${indexes.length} images`
+          })
+
+          // Items run side by side; results still land in item order
+          await mapConcurrent(indexes, concurrency, async (index) => {
+            const item = job.items[index]
+            updateBatchItem(job.id, index, { status: 'running', error: undefined })
+
+            try {
+              const provider = getImageProvider()
+              const startedAt = performance.now()
+              const [result] = await provider.generateImage({
+                prompt: item.prompt,
+                negativePrompt: job.negativePrompt,
+                size: item.size as ImageSize,
+                quality: item.quality as ImageQuality,
+                style: item.style as ImageStyle,
+                n: 1,
+                signal
+              })
+              const provenance = createProvenance(provider, result, {
+                tool: 'batch',
+                operation: 'generate',
+                prompt: item.prompt,
+                negativePrompt: job.negativePrompt,
+                params: { size: item.size, quality: item.quality, style: item.style, n: 1 },
+                latencyMs: Math.round(performance.now() - startedAt),
+                batch: { basePrompt: job.basePrompt, variation: item.variation ?? '', index: index + 1 }
+              })
+
+              const blob = await fetchResultBlob(result.url, { signal })
+
+              const newImage: BatchImage = {
+                id: `${job.id}-${index}`,
+                url: result.url,
+                prompt: item.prompt,
+                variation: index + 1,
+                createdAt: new Date(),
+                provenance
+              }
+
+              if (settings.autoSaveToGallery) {
+                addGalleryImages([{
+                  id: newImage.id,
+                  url: newImage.url,
+                  prompt: item.prompt,
+                  negativePrompt: job.negativePrompt,
+                  type: 'batch',
+                  size: item.size,
+                  quality: item.quality,
+                  style: item.style,
+                  createdAt: newImage.createdAt,
+                  provenance,
+                  blob
+                }])
+              }
+
+              addBatchImage(job.id, newImage)
+              updateBatchItem(job.id, index, { status: 'succeeded' })
+              succeeded++
+            } catch (error) {
+              if (isCancellation(error)) {
+                updateBatchItem(job.id, index, { status: 'queued' })
+                throw error
+              }
+              console.error(`Error generating prompt ${index + 1}:`, error)
+              updateBatchItem(job.id, index, {
+                status: 'failed',
+                error: error instanceof Error ? error.message : String(error)
+              })
+              failed++
+            }
+            setProgress(((succeeded + failed) / indexes.length) * 100)
+          }, signal)
+        }
+      }).promise
+
+      updateBatchJob(job.id, current => ({ status: getFinishedBatchStatus(current) }))
+
+      toast(failed === 0
+        ? {
+            title: "Batch generation completed!",
+            description: `Generated ${succeeded} images from ${indexes.length} prompts.`
+          }
+        : {
+            title: "Batch completed with errors",
+            description: `Generated ${succeeded} of ${indexes.length} images; ${failed} failed. You can retry the failed ones.`,
+            variant: "destructive"
+          })
+
+    } catch (error) {
+      if (isCancellation(error)) {
+        updateBatchJob(job.id, () => ({ status: 'cancelled' }))
+        toast({
+          title: "Batch generation cancelled",
+          description: `Kept ${succeeded} images generated before cancelling.`
+        })
+        return
+      }
+      updateBatchJob(job.id, () => ({ status: 'failed' }))
+      console.error('Error in batch generation:', error)
+      toast({
+        title: "Batch generation failed",
+        description: "Failed to generate batch images. Please try again.",
+        variant: "destructive"
+      })
+    }
+  }
+
   const generateBatch = async () => {
     const validVariations = variations.filter(v => v.trim())
-    
-    if (!basePrompt.trim()) {
+    // Grid cells and imported rows run as they are; otherwise the expanded
+    // prompts use the form settings
+    const items: BatchItem[] = grid
+      ? gridCells.map(cell => ({
+          prompt: cell.prompt,
+          variation: cell.label,
+          size: cell.size,
+          quality: cell.quality,
+          style: cell.style,
+          status: 'queued'
+        }))
+      : imported
+      ? imported.rows.map(row => ({
+          prompt: row.prompt,
+          size: row.size ?? size,
+          quality: row.quality ?? quality,
+          style: row.style ?? style,
+          filename: row.filename,
+          row: row.row,
+          status: 'queued'
+        }))
+      : expansion.prompts.map(p => ({
+          prompt: p.prompt,
+          variation: validVariations[p.source],
+          size,
+          quality,
+          style,
+          status: 'queued'
+        }))
+
+    if (items.length === 0) {
       toast({
-        title: "Base prompt required",
-        description: "Please enter a base prompt for your batch generation.",
+        title: "Nothing to generate",
+        description: grid
+          ? "Please add at least one prompt fragment to each prompt axis."
+          : "Please enter a base prompt or at least one variation.",
         variant: "destructive"
       })
       return
     }
 
-    if (validVariations.length === 0) {
+    if (items.length > maxPrompts) {
       toast({
-        title: "At least one variation required",
-        description: "Please add at least one variation to generate.",
+        title: "Grid too large",
+        description: `The grid has ${items.length} cells; batches are limited to ${maxPrompts} images.`,
         variant: "destructive"
       })
       return
     }
 
-    setIsGenerating(true)
-    setProgress(0)
-
-    const jobId = `batch-${Date.now()}`
     const newJob: BatchJob = {
-      id: jobId,
-      basePrompt,
-      variations: validVariations,
+      id: `batch-${Date.now()}`,
+      basePrompt: imported && !grid ? '' : basePrompt,
+      negativePrompt: negativePrompt.trim() || undefined,
+      variations: imported || grid ? [] : validVariations,
+      importedFrom: grid ? undefined : imported?.filename,
+      grid: grid ?? undefined,
+      items,
       images: [],
       size,
       quality,
@@ -124,130 +363,246 @@ export function BatchGenerator() {
       status: 'generating'
     }
 
-    setBatchJobs(prev => [newJob, ...prev])
-
-    try {
-      const totalImages = validVariations.length
-      const generatedImages: BatchImage[] = []
-
-      for (let i = 0; i < validVariations.length; i++) {
-        const variation = validVariations[i]
-        const fullPrompt = `${basePrompt}, ${variation}`.trim().replace(/,\s*,/g, ',')
+    batchJobsStore.set(prev => [newJob, ...prev])
+    await runBatchItems(newJob, items.map((_, index) => index))
+  }
 
-        try {
-          const { data } = await blink.ai.generateImage({
-            prompt: fullPrompt,
-            size: size as '1024x1024' | '1792x1024' | '1024x1792',
-            quality: quality as 'auto' | 'low' | 'medium' | 'high',
-            style: style as 'natural' | 'vivid',
-            n: 1
-          })
+  const retryItems = async (job: BatchJob, indexes: number[]) => {
+    updateBatchJob(job.id, current => ({
+      status: 'generating',
+      items: current.items.map((item, index) =>
+        indexes.includes(index) ? { ...item, status: 'queued', error: undefined } : item
+      )
+    }))
+    await runBatchItems(job, indexes)
+  }
 
-          const newImage: BatchImage = {
-            id: `${jobId}-${i}`,
-            url: data[0].url,
-            prompt: fullPrompt,
-            variation: i + 1,
-            createdAt: new Date()
-          }
+  // Opened with ?resume=<batch id>, e.g. from the dashboard, the batch picks
+  // up its unfinished items in place, as its Resume button does
+  const resumedId = useRef<string | null>(null)
+  const resumeId = searchParams.get('resume')
+  // The latest retryItems, so resuming does not run again on every render
+  const retryItemsRef = useRef(retryItems)
+  useEffect(() => {
+    retryItemsRef.current = retryItems
+  })
+  useEffect(() => {
+    if (!resumeId || resumedId.current === resumeId) return
+    resumedId.current = resumeId
+    setSearchParams(prev => {
+      prev.delete('resume')
+      return prev
+    }, { replace: true })
+    const job = getBatchJob(resumeId)
+    const indexes = job ? getResumableItemIndexes(job) : []
+    if (job && indexes.length > 0) retryItemsRef.current(job, indexes)
+  }, [resumeId, setSearchParams])
 
-          generatedImages.push(newImage)
-          setProgress(((i + 1) / totalImages) * 100)
+  const downloadAll = async (job: BatchJob) => {
+    setArchivingJobId(job.id)
+    try {
+      const { added, failed } = await downloadArchive(job.id, job.images.map(image => {
+        const item = job.items[image.variation - 1]
+        return {
+          id: image.id,
+          url: image.url,
+          load: () => fetchWithProgress(image.url),
+          type: 'batch',
+          prompt: image.prompt,
+          negativePrompt: job.negativePrompt,
+          size: item?.size,
+          quality: item?.quality,
+          style: item?.style,
+          createdAt: image.createdAt,
+          filename: item?.filename,
+          provenance: image.provenance
+        }
+      }))
+      
+      toast({
+        title: "Batch download started",
+        description: failed > 0
+          ? `Packed ${added} images into a ZIP archive; ${failed} could not be downloaded.`
+          : `Packed ${added} images into a ZIP archive.`
+      })
+    } catch (error) {
+      console.error('Error creating batch archive:', error)
+      toast({
+        title: "Download failed",
+        description: "Failed to download batch images. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setArchivingJobId(null)
+    }
+  }
 
-          // Update the job with new image
-          setBatchJobs(prev => prev.map(job => 
-            job.id === jobId 
-              ? { ...job, images: [...generatedImages] }
-              : job
-          ))
+  const downloadSingle = async (job: BatchJob, image: BatchImage) => {
+    try {
+      await saveImage(image.url, {
+        type: 'batch',
+        id: image.id,
+        prompt: image.prompt,
+        createdAt: image.createdAt
+      }, job.items[image.variation - 1]?.filename)
+      
+      toast({
+        title: "Download started",
+        description: "Your image is being downloaded."
+      })
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: "Failed to download image. Please try again.",
+        variant: "destructive"
+      })
+    }
+  }
 
+  // Missing cells stay blank, so a grid can be exported while some failed
+  const exportGrid = async (job: BatchJob) => {
+    if (!job.grid) return
+    setExportingGridId(job.id)
+    try {
+      const images = await Promise.all(job.items.map(async (_, index) => {
+        const image = getBatchItemImage(job, index)
+        if (!image) return null
+        try {
+          return await fetchWithProgress(image.url)
         } catch (error) {
-          console.error(`Error generating variation ${i + 1}:`, error)
+          console.error(`Error loading grid cell ${index + 1}:`, error)
+          return null
         }
-      }
-
-      // Mark job as completed
-      setBatchJobs(prev => prev.map(job => 
-        job.id === jobId 
-          ? { ...job, status: 'completed' as const }
-          : job
-      ))
-
+      }))
+      downloadBlob(await renderGridComposite(job.grid, images), `${job.id}-grid.png`)
       toast({
-        title: "Batch generation completed!",
-        description: `Generated ${generatedImages.length} images from ${validVariations.length} variations.`
+        title: "Grid exported",
+        description: images.every(Boolean)
+          ? "The labeled grid was saved as one PNG."
+          : `The labeled grid was saved as one PNG; ${images.filter(image => !image).length} cells are blank.`
       })
-
     } catch (error) {
-      console.error('Error in batch generation:', error)
-      setBatchJobs(prev => prev.map(job => 
-        job.id === jobId 
-          ? { ...job, status: 'failed' as const }
-          : job
-      ))
+      console.error('Error exporting grid:', error)
       toast({
-        title: "Batch generation failed",
-        description: "Failed to generate batch images. Please try again.",
+        title: "Export failed",
+        description: "Failed to export the grid. Please try again.",
         variant: "destructive"
       })
     } finally {
-      setIsGenerating(false)
-      setProgress(0)
+      setExportingGridId(null)
     }
   }
 
-  const downloadAll = async (job: BatchJob) => {
+  const exportManifest = (job: BatchJob, format: 'csv' | 'json') => {
+    const entries = getBatchManifest(job)
+    const blob = format === 'csv'
+      ? new Blob([formatManifestCsv(entries)], { type: 'text/csv' })
+      : new Blob([formatManifestJson(job, entries)], { type: 'application/json' })
+    downloadBlob(blob, `${job.id}-manifest.${format}`)
+  }
+
+  const importSheet = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
     try {
-      for (const image of job.images) {
-        const response = await fetch(image.url)
-        const blob = await response.blob()
-        const url = window.URL.createObjectURL(blob)
-        const a = document.createElement('a')
-        a.href = url
-        a.download = `batch-${job.id}-variation-${image.variation}.png`
-        document.body.appendChild(a)
-        a.click()
-        window.URL.revokeObjectURL(url)
-        document.body.removeChild(a)
-        
-        // Small delay between downloads
-        await new Promise(resolve => setTimeout(resolve, 100))
+      const { rows, errors } = parseBatchImport(file.name, await file.text())
+      if (rows.length === 0) {
+        toast({
+          title: "No rows imported",
+          description: errors.length > 0
+            ? `Row ${errors[0].row}: ${errors[0].message}`
+            : "The file has no rows with a prompt.",
+          variant: "destructive"
+        })
+        return
       }
-      
+
+      setImported({ filename: file.name, rows: rows.slice(0, maxPrompts) })
+      const notes = [
+        errors.length > 0 && `skipped ${errors.length} invalid rows (first: row ${errors[0].row}, ${errors[0].message})`,
+        rows.length > maxPrompts && `kept the first ${maxPrompts} of ${rows.length} rows`
+      ].filter(Boolean)
       toast({
-        title: "Batch download started",
-        description: `Downloading ${job.images.length} images from this batch.`
+        title: "Prompts imported",
+        description: notes.length > 0
+          ? `Imported ${Math.min(rows.length, maxPrompts)} rows; ${notes.join('; ')}.`
+          : `Imported ${rows.length} rows from ${file.name}.`
       })
     } catch (error) {
+      console.error('Error importing prompt sheet:', error)
       toast({
-        title: "Download failed",
-        description: "Failed to download batch images. Please try again.",
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "The file could not be read.",
         variant: "destructive"
       })
     }
   }
 
-  const downloadSingle = async (image: BatchImage) => {
+  // Expanded prompts are complete, so they replace the base prompt and variations
+  const applyTemplateExpansions = (expansions: TemplateExpansion[], template: PromptTemplate) => {
+    setImported(null)
+    setBasePrompt('')
+    setVariations(expansions.map(expansion => expansion.prompt))
+    const total = countTemplateExpansions(template)
+    if (total > expansions.length) {
+      toast({
+        title: "Template expanded partially",
+        description: `"${template.name}" has ${total} combinations; the first ${expansions.length} were added.`
+      })
+    }
+  }
+
+  const reproduceImage = (image: BatchImage) => {
+    const setup = getBatchSetupFromProvenance(image.provenance)
+    setBasePrompt(setup.basePrompt)
+    setNegativePrompt(setup.negativePrompt)
+    setVariations(setup.variations)
+    setImported(null)
+    setGrid(null)
+    setSize(setup.size)
+    setQuality(setup.quality)
+    setStyle(setup.style)
+    toast({
+      title: "Settings loaded",
+      description: `Batch settings for prompt #${image.variation} are ready to run again.`
+    })
+  }
+
+  // Variations are not part of the batch; they land in the gallery under the image
+  const makeVariations = async (job: BatchJob, image: BatchImage) => {
+    const item = job.items[image.variation - 1]
     try {
-      const response = await fetch(image.url)
-      const blob = await response.blob()
-      const url = window.URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = `variation-${image.variation}-${image.prompt.slice(0, 30).replace(/[^a-zA-Z0-9]/g, '-')}.png`
-      document.body.appendChild(a)
-      a.click()
-      window.URL.revokeObjectURL(url)
-      document.body.removeChild(a)
-      
+      const variations = await createVariations({
+        id: image.id,
+        url: image.url,
+        prompt: image.prompt,
+        negativePrompt: job.negativePrompt,
+        type: 'batch',
+        size: item?.size,
+        quality: item?.quality,
+        style: item?.style,
+        filename: item?.filename,
+        createdAt: image.createdAt,
+        provenance: image.provenance
+      }, settings.variations.count, 'batch')
       toast({
-        title: "Download started",
-        description: "Your image is being downloaded."
+        title: "Variations created",
+        description: `Generated ${variations.length} variation${variations.length > 1 ? 's' : ''} of prompt #${image.variation} and saved them to your gallery.`
       })
     } catch (error) {
+      if (isCancellation(error)) {
+        toast({
+          title: "Variations cancelled",
+          description: "Generating the variations was cancelled."
+        })
+        return
+      }
+      console.error('Error creating variations:', error)
       toast({
-        title: "Download failed",
-        description: "Failed to download image. Please try again.",
+        title: "Variations failed",
+        description: "Failed to create variations. Please try again.",
         variant: "destructive"
       })
     }
@@ -261,6 +616,136 @@ export function BatchGenerator() {
     })
   }
 
+  // A generated image with its actions, or where it stands if there is none yet
+  const renderItem = (job: BatchJob, item: BatchItem, index: number) => {
+    const image = getBatchItemImage(job, index)
+    return image ? (
+      <div key={image.id} className="group relative">
+        <div className="aspect-square rounded-lg overflow-hidden bg-muted">
+          <img
+            src={image.url}
+            alt={`Variation ${image.variation}`}
+            className="w-full h-full object-cover transition-transform group-hover:scale-105"
+          />
+        </div>
+        
+        {/* Image Overlay */}
+        <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg flex items-center justify-center">
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => downloadSingle(job, image)}
+            >
+              <Download className="w-4 h-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => copyPrompt(image.prompt)}
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              title="Reproduce"
+              onClick={() => reproduceImage(image)}
+            >
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              title="Variations"
+              disabled={pendingVariations.includes(image.id)}
+              onClick={() => makeVariations(job, image)}
+            >
+              {pendingVariations.includes(image.id) ? (
+                <RefreshCw className="w-4 h-4 animate-spin" />
+              ) : (
+                <CopyPlus className="w-4 h-4" />
+              )}
+            </Button>
+          </div>
+        </div>
+
+        {/* Variation Number */}
+        <div className="absolute top-2 left-2">
+          <Badge variant="secondary" className="text-xs">
+            #{image.variation}
+          </Badge>
+        </div>
+      </div>
+    ) : (
+      <div
+        key={`${job.id}-${index}`}
+        className="relative aspect-square rounded-lg border border-dashed bg-muted/50 p-3 flex flex-col items-center justify-center gap-2 text-center"
+        title={item.prompt}
+      >
+        {item.status === 'running' ? (
+          <>
+            <RefreshCw className="w-6 h-6 text-muted-foreground animate-spin" />
+            <span className="text-xs text-muted-foreground">Generating...</span>
+          </>
+        ) : item.status === 'failed' ? (
+          <>
+            <AlertTriangle className="w-6 h-6 text-destructive" />
+            <span className="text-xs text-destructive line-clamp-3">{item.error || 'Failed'}</span>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={job.status === 'generating'}
+              onClick={() => retryItems(job, [index])}
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Retry
+            </Button>
+          </>
+        ) : (
+          <>
+            <Clock className="w-6 h-6 text-muted-foreground" />
+            <span className="text-xs text-muted-foreground">
+              {job.status === 'generating' ? 'Queued' : 'Not generated'}
+            </span>
+          </>
+        )}
+
+        <div className="absolute top-2 left-2">
+          <Badge variant="secondary" className="text-xs">
+            #{index + 1}
+          </Badge>
+        </div>
+      </div>
+    )
+  }
+
+  // Grid cells under their column values, with the row values on the left
+  const renderGrid = (job: BatchJob, grid: PromptGrid) => {
+    const { columns, rows } = getGridShape(grid)
+    return (
+      <div
+        className="grid gap-2 overflow-x-auto"
+        style={{ gridTemplateColumns: `${grid.y ? 'minmax(4rem, auto) ' : ''}repeat(${columns}, minmax(8rem, 1fr))` }}
+      >
+        {grid.y && <div />}
+        {grid.x.values.map((value, x) => (
+          <div key={`x-${x}`} className="text-xs font-medium text-center self-end break-words">
+            {value}
+          </div>
+        ))}
+        {Array.from({ length: rows }, (_, y) => [
+          grid.y && (
+            <div key={`y-${y}`} className="text-xs font-medium self-center break-words">
+              {grid.y.values[y]}
+            </div>
+          ),
+          ...grid.x.values.map((_, x) => renderItem(job, job.items[y * columns + x], y * columns + x))
+        ])}
+      </div>
+    )
+  }
+
   return (
     <div className="space-y-6">
       <div className="text-center space-y-2">
@@ -287,59 +772,208 @@ export function BatchGenerator() {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="basePrompt">Base Prompt</Label>
-                <Textarea
-                  id="basePrompt"
-                  placeholder="Enter your base prompt (e.g., 'A beautiful landscape')"
-                  value={basePrompt}
-                  onChange={(e) => setBasePrompt(e.target.value)}
-                  rows={3}
-                  className="resize-none"
+              <div className="flex items-center justify-between gap-2">
+                <Label>Mode</Label>
+                <Select
+                  value={grid ? 'grid' : 'prompts'}
+                  onValueChange={(value) => setGrid(value === 'grid' ? defaultPromptGrid : null)}
+                >
+                  <SelectTrigger className="h-8 w-[150px] text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="prompts">Prompts</SelectItem>
+                    <SelectItem value="grid">XY Grid</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {!grid && (
+              <div className="flex items-center justify-between gap-2">
+                <Label>Prompt Sheet</Label>
+                <Button size="sm" variant="outline" className="h-8" onClick={() => sheetInputRef.current?.click()}>
+                  <FileSpreadsheet className="w-4 h-4 mr-2" />
+                  Import CSV/JSON
+                </Button>
+                <input
+                  ref={sheetInputRef}
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={importSheet}
+                  className="hidden"
                 />
               </div>
+              )}
+
+              {(grid || !imported) && (
+                <>
+                {!grid && <PromptTemplatePanel mode="expand" limit={maxPrompts} onUse={applyTemplateExpansions} />}
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <Label htmlFor="basePrompt">{grid ? 'Prompt' : 'Base Prompt'}</Label>
+                    <PromptEnhancer value={basePrompt} onChange={setBasePrompt} />
+                  </div>
+                  <Textarea
+                    id="basePrompt"
+                    placeholder={grid
+                      ? "Enter the prompt to compare (e.g., 'A beautiful landscape')"
+                      : "Enter your base prompt (e.g., 'A beautiful landscape'), or leave empty if the variations are complete prompts"}
+                    value={basePrompt}
+                    onChange={(e) => setBasePrompt(e.target.value)}
+                    rows={3}
+                    className="resize-none"
+                  />
+                </div>
+                </>
+              )}
+
+              <NegativePromptField
+                id="batchNegativePrompt"
+                value={negativePrompt}
+                onChange={setNegativePrompt}
+              />
 
               <Separator />
 
-              <div className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <Label>Variations ({variations.length}/10)</Label>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={addVariation}
-                    disabled={variations.length >= 10}
-                  >
-                    Add Variation
-                  </Button>
+              {grid ? (
+                <div className="space-y-3">
+                  <PromptGridFields grid={grid} onChange={setGrid} />
+                  <p className={`text-xs ${gridCells.length > maxPrompts ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    {getGridShape(grid).columns} × {getGridShape(grid).rows} = {gridCells.length} images
+                    {gridCells.length > maxPrompts && `, over the limit of ${maxPrompts}`}
+                  </p>
+                </div>
+              ) : imported ? (
+                <div className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-medium truncate">
+                      {imported.filename} ({imported.rows.length} rows)
+                    </p>
+                    <Button size="sm" variant="ghost" className="h-7" title="Clear imported rows" onClick={() => setImported(null)}>
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Each row is generated as it is. Blank cells use the settings below.
+                  </p>
+                  <ol className="max-h-64 overflow-y-auto space-y-1 text-xs list-decimal list-inside">
+                    {imported.rows.map((row, index) => (
+                      <li key={index} value={row.row} className="break-words">
+                        {row.prompt}
+                        {[row.size, row.quality, row.style, row.filename].some(Boolean) && (
+                          <span className="text-muted-foreground">
+                            {' '}({[row.size, row.quality, row.style, row.filename].filter(Boolean).join(', ')})
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
                 </div>
-                
-                {variations.map((variation, index) => (
-                  <div key={index} className="flex gap-2">
-                    <Input
-                      placeholder={`Variation ${index + 1} (e.g., 'at sunset')`}
-                      value={variation}
-                      onChange={(e) => updateVariation(index, e.target.value)}
-                    />
-                    {variations.length > 1 && (
+              ) : (
+                <>
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label>Variations ({variations.length}/{maxPrompts})</Label>
+                    <div className="flex items-center gap-1">
+                      <WildcardLibrary />
                       <Button
                         size="sm"
                         variant="outline"
-                        onClick={() => removeVariation(index)}
+                        className="h-8"
+                        onClick={addVariation}
+                        disabled={variations.length >= maxPrompts}
                       >
-                        ×
+                        Add Variation
                       </Button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Use {'{a|b|c}'} for alternatives, {'{2::a|b}'} to weight them, {'{1-2$$a|b|c}'} to pick several and __name__ for wildcards.
+                  </p>
+
+                  {variations.map((variation, index) => (
+                    <div key={index} className="flex gap-2">
+                      <Input
+                        placeholder={`Variation ${index + 1} (e.g., 'at sunset')`}
+                        value={variation}
+                        onChange={(e) => updateVariation(index, e.target.value)}
+                      />
+                      {variations.length > 1 && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => removeVariation(index)}
+                        >
+                          ×
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <Label>Expansion</Label>
+                    <div className="flex items-center gap-1">
+                      <Select value={expansionMode} onValueChange={(value) => setExpansionMode(value as ExpansionMode)}>
+                        <SelectTrigger className="h-8 w-[150px] text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All combinations</SelectItem>
+                          <SelectItem value="random">Random</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {expansionMode === 'random' && (
+                        <>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={maxPrompts}
+                            value={randomCount}
+                            onChange={(e) => setRandomCount(Math.min(maxPrompts, Math.max(1, Number(e.target.value) || 1)))}
+                            className="h-8 w-16 text-xs"
+                            aria-label="Number of random prompts"
+                          />
+                          <Button size="sm" variant="outline" className="h-8" title="Reroll" onClick={() => setSeed(Date.now())}>
+                            <Shuffle className="w-4 h-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="rounded-lg border p-3 space-y-2">
+                    <p className="text-xs text-muted-foreground">
+                      {expansion.prompts.length} prompts
+                      {expansion.total !== expansion.prompts.length && ` of ${expansion.total} combinations`}
+                      {expansionMode === 'all' && expansion.total > maxPrompts && `, capped at ${maxPrompts}`}
+                    </p>
+                    {expansion.missingWildcards.length > 0 && (
+                      <p className="text-xs text-destructive flex items-center gap-1">
+                        <AlertTriangle className="w-3 h-3 shrink-0" />
+                        Unknown wildcards: {expansion.missingWildcards.map(name => `__${name}__`).join(', ')}
+                      </p>
+                    )}
+                    {expansion.prompts.length > 0 && (
+                      <ol className="max-h-48 overflow-y-auto space-y-1 text-xs list-decimal list-inside">
+                        {expansion.prompts.map((p) => (
+                          <li key={p.prompt} className="break-words">{p.prompt}</li>
+                        ))}
+                      </ol>
                     )}
                   </div>
-                ))}
-              </div>
+                </div>
+                </>
+              )}
 
               <Separator />
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="size">Size</Label>
-                  <Select value={size} onValueChange={setSize}>
+                  <Select value={size} onValueChange={setSize} disabled={isComparing('size')}>
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
@@ -355,7 +989,7 @@ export function BatchGenerator() {
 
                 <div className="space-y-2">
                   <Label htmlFor="quality">Quality</Label>
-                  <Select value={quality} onValueChange={setQuality}>
+                  <Select value={quality} onValueChange={setQuality} disabled={isComparing('quality')}>
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
@@ -372,7 +1006,7 @@ export function BatchGenerator() {
 
               <div className="space-y-2">
                 <Label htmlFor="style">Style</Label>
-                <Select value={style} onValueChange={setStyle}>
+                <Select value={style} onValueChange={setStyle} disabled={isComparing('style')}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
@@ -386,19 +1020,11 @@ export function BatchGenerator() {
                 </Select>
               </div>
 
-              {isGenerating && (
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between text-sm">
-                    <span>Generating batch...</span>
-                    <span>{Math.round(progress)}%</span>
-                  </div>
-                  <Progress value={progress} className="w-full" />
-                </div>
-              )}
+              {currentJob && <JobProgress job={currentJob} />}
 
               <Button 
                 onClick={generateBatch} 
-                disabled={isGenerating || !basePrompt.trim() || variations.filter(v => v.trim()).length === 0}
+                disabled={isGenerating || itemCount === 0 || itemCount > maxPrompts}
                 className="w-full"
                 size="lg"
               >
@@ -410,7 +1036,7 @@ export function BatchGenerator() {
                 ) : (
                   <>
                     <Sparkles className="w-4 h-4 mr-2" />
-                    Generate Batch ({variations.filter(v => v.trim()).length} images)
+                    {grid ? 'Generate Grid' : 'Generate Batch'} ({itemCount} images)
                   </>
                 )}
               </Button>
@@ -448,18 +1074,25 @@ export function BatchGenerator() {
                     <div key={job.id} className="border rounded-lg p-4 space-y-4">
                       <div className="flex items-start justify-between">
                         <div className="space-y-1">
-                          <h4 className="font-medium">{job.basePrompt}</h4>
+                          <h4 className="font-medium">{getBatchTitle(job)}</h4>
+                          {job.negativePrompt && (
+                            <p className="text-xs text-muted-foreground">Avoid: {job.negativePrompt}</p>
+                          )}
                           <p className="text-sm text-muted-foreground">
-                            {job.variations.length} variations • {job.createdAt.toLocaleString()}
+                            {job.items.length} prompts • {job.createdAt.toLocaleString()}
                           </p>
                           <div className="flex gap-2">
                             <Badge variant={
                               job.status === 'completed' ? 'default' : 
                               job.status === 'generating' ? 'secondary' : 
+                              job.status === 'completed-with-errors' || job.status === 'cancelled' || job.status === 'interrupted' ? 'outline' :
                               'destructive'
-                            }>
+                            } className={job.status === 'completed-with-errors' ? 'border-destructive text-destructive' : undefined}>
                               {job.status === 'completed' ? 'Completed' : 
                                job.status === 'generating' ? 'Generating...' : 
+                               job.status === 'completed-with-errors' ? 'Completed with errors' :
+                               job.status === 'cancelled' ? 'Cancelled' :
+                               job.status === 'interrupted' ? 'Interrupted' :
                                'Failed'}
                             </Badge>
                             <Badge variant="outline">{job.size}</Badge>
@@ -467,58 +1100,78 @@ export function BatchGenerator() {
                             <Badge variant="outline">{job.style}</Badge>
                           </div>
                         </div>
-                        {job.status === 'completed' && job.images.length > 0 && (
+                        <div className="flex gap-2">
                           <Button
                             size="sm"
-                            onClick={() => downloadAll(job)}
+                            variant="outline"
+                            title="Export manifest as CSV"
+                            onClick={() => exportManifest(job, 'csv')}
                           >
-                            <DownloadCloud className="w-4 h-4 mr-2" />
-                            Download All ({job.images.length})
+                            <FileSpreadsheet className="w-4 h-4" />
                           </Button>
-                        )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            title="Export manifest as JSON"
+                            onClick={() => exportManifest(job, 'json')}
+                          >
+                            <FileJson className="w-4 h-4" />
+                          </Button>
+                          {(job.status === 'interrupted' || job.status === 'cancelled' || job.status === 'failed') && getUnfinishedItemIndexes(job).length > 0 && (
+                            <Button
+                              size="sm"
+                              onClick={() => retryItems(job, getUnfinishedItemIndexes(job))}
+                            >
+                              <Play className="w-4 h-4 mr-2" />
+                              Resume ({getUnfinishedItemIndexes(job).length})
+                            </Button>
+                          )}
+                          {getFailedItemIndexes(job).length > 0 && job.status !== 'generating' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => retryItems(job, getFailedItemIndexes(job))}
+                            >
+                              <RefreshCw className="w-4 h-4 mr-2" />
+                              Retry Failed ({getFailedItemIndexes(job).length})
+                            </Button>
+                          )}
+                          {job.grid && job.status !== 'generating' && job.images.length > 0 && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => exportGrid(job)}
+                              disabled={exportingGridId === job.id}
+                            >
+                              {exportingGridId === job.id ? (
+                                <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                              ) : (
+                                <ImageDown className="w-4 h-4 mr-2" />
+                              )}
+                              Export PNG
+                            </Button>
+                          )}
+                          {(job.status === 'completed' || job.status === 'completed-with-errors') && job.images.length > 0 && (
+                            <Button
+                              size="sm"
+                              onClick={() => downloadAll(job)}
+                              disabled={archivingJobId === job.id}
+                            >
+                              {archivingJobId === job.id ? (
+                                <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                              ) : (
+                                <DownloadCloud className="w-4 h-4 mr-2" />
+                              )}
+                              Download ZIP ({job.images.length})
+                            </Button>
+                          )}
+                        </div>
                       </div>
 
-                      {job.images.length > 0 && (
-                        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                          {job.images.map((image) => (
-                            <div key={image.id} className="group relative">
-                              <div className="aspect-square rounded-lg overflow-hidden bg-muted">
-                                <img
-                                  src={image.url}
-                                  alt={`Variation ${image.variation}`}
-                                  className="w-full h-full object-cover transition-transform group-hover:scale-105"
-                                />
-                              </div>
-                              
-                              {/* Image Overlay */}
-                              <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg flex items-center justify-center">
-                                <div className="flex gap-2">
-                                  <Button
-                                    size="sm"
-                                    variant="secondary"
-                                    onClick={() => downloadSingle(image)}
-                                  >
-                                    <Download className="w-4 h-4" />
-                                  </Button>
-                                  <Button
-                                    size="sm"
-                                    variant="secondary"
-                                    onClick={() => copyPrompt(image.prompt)}
-                                  >
-                                    <Copy className="w-4 h-4" />
-                                  </Button>
-                                </div>
-                              </div>
-
-                              {/* Variation Number */}
-                              <div className="absolute top-2 left-2">
-                                <Badge variant="secondary" className="text-xs">
-                                  #{image.variation}
-                                </Badge>
-                              </div>
-                            </div>
-                          ))}
-                        </div>
+                      {job.grid ? renderGrid(job, job.grid) : (
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                        {job.items.map((item, index) => renderItem(job, item, index))}
+                      </div>
                       )}
                     </div>
                   ))}
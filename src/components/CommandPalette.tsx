@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Button } from './ui/button'
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut
+} from './ui/command'
+import { Search, Home, Settings } from 'lucide-react'
+import { tools } from '../lib/tools'
+
+export function CommandPalette() {
+  const [open, setOpen] = useState(false)
+  const navigate = useNavigate()
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault()
+        setOpen(prev => !prev)
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  const runCommand = (path: string) => {
+    setOpen(false)
+    navigate(path)
+  }
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="text-muted-foreground"
+        onClick={() => setOpen(true)}
+      >
+        <Search className="w-4 h-4 mr-2" />
+        Search tools
+        <CommandShortcut className="ml-4">⌘K</CommandShortcut>
+      </Button>
+      <CommandDialog open={open} onOpenChange={setOpen}>
+        <CommandInput placeholder="Search tools..." />
+        <CommandList>
+          <CommandEmpty>No tools found.</CommandEmpty>
+          <CommandGroup heading="Tools">
+            {tools.map((tool) => (
+              <CommandItem
+                key={tool.id}
+                value={tool.title}
+                keywords={[tool.shortTitle, tool.description, ...(tool.keywords ?? [])]}
+                onSelect={() => runCommand(tool.path)}
+              >
+                <tool.icon className="w-4 h-4 mr-2" />
+                <div className="flex flex-col">
+                  <span>{tool.title}</span>
+                  <span className="text-xs text-muted-foreground">{tool.description}</span>
+                </div>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+          <CommandSeparator />
+          <CommandGroup heading="Pages">
+            <CommandItem value="Dashboard" onSelect={() => runCommand('/')}>
+              <Home className="w-4 h-4 mr-2" />
+              Dashboard
+            </CommandItem>
+            <CommandItem value="Settings" onSelect={() => runCommand('/settings')}>
+              <Settings className="w-4 h-4 mr-2" />
+              Settings
+            </CommandItem>
+          </CommandGroup>
+        </CommandList>
+      </CommandDialog>
+    </>
+  )
+}
@@ -0,0 +1,310 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import {
+  Home,
+  Images,
+  ListTodo,
+  RefreshCw,
+  Layers,
+  Upload,
+  XCircle,
+  X,
+  ArrowRight
+} from 'lucide-react'
+import { useToast } from '../hooks/use-toast'
+import { useGalleryQuery } from '../hooks/use-gallery-query'
+import { useJobs } from '../hooks/use-jobs'
+import { useStore } from '../hooks/use-store'
+import { JobProgress } from './JobProgress'
+import { batchJobsStore, getResumableItemIndexes, getUnfinishedItems } from '../lib/batches'
+import { parseGeneratorParams, toGeneratorSearch } from '../lib/generator-params'
+import { getTool, getToolsAccepting, tools, type ToolLocationState } from '../lib/tools'
+
+export function Dashboard() {
+  const { images: recentImages } = useGalleryQuery({ limit: 8 })
+  const { images: [lastGenerated] } = useGalleryQuery({ type: 'generated', limit: 1 })
+  const { jobs, activeJobs, cancelJob } = useJobs()
+  const batchJobs = useStore(batchJobsStore)
+  const [droppedFile, setDroppedFile] = useState<File | null>(null)
+  const [droppedPreview, setDroppedPreview] = useState('')
+  const [isDragging, setIsDragging] = useState(false)
+  const navigate = useNavigate()
+  const { toast } = useToast()
+
+  const failedJobs = jobs.filter(job => job.status === 'failed')
+  const lastBatch = batchJobs[0]
+  const imageTools = getToolsAccepting('image')
+
+  const rerunLastPrompt = () => {
+    if (!lastGenerated) return
+    // Go through the parser so stale or unknown settings fall back to defaults
+    const params = parseGeneratorParams(new URLSearchParams({
+      prompt: lastGenerated.prompt,
+      negative: lastGenerated.negativePrompt ?? '',
+      size: lastGenerated.size ?? '',
+      quality: lastGenerated.quality ?? '',
+      style: lastGenerated.style ?? ''
+    }))
+    navigate(`/generate?${toGeneratorSearch(params)}`)
+  }
+
+  // A batch with unfinished items resumes in place; a finished one opens its setup to run again
+  const continueLastBatch = () => {
+    if (!lastBatch) return
+    const id = encodeURIComponent(lastBatch.id)
+    if (lastBatch.status === 'generating') {
+      navigate('/batch')
+    } else if (getResumableItemIndexes(lastBatch).length > 0) {
+      navigate(`/batch?resume=${id}`)
+    } else {
+      navigate(`/batch?continue=${id}`)
+    }
+  }
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setIsDragging(false)
+    const file = event.dataTransfer.files[0]
+    if (!file) return
+
+    if (!file.type.startsWith('image/')) {
+      toast({
+        title: "Invalid file type",
+        description: "Please drop an image file (PNG, JPG, JPEG, WebP).",
+        variant: "destructive"
+      })
+      return
+    }
+
+    if (droppedPreview) {
+      URL.revokeObjectURL(droppedPreview)
+    }
+    setDroppedFile(file)
+    setDroppedPreview(URL.createObjectURL(file))
+  }
+
+  const clearDroppedFile = () => {
+    if (droppedPreview) {
+      URL.revokeObjectURL(droppedPreview)
+    }
+    setDroppedFile(null)
+    setDroppedPreview('')
+  }
+
+  const sendToTool = (path: string) => {
+    if (!droppedFile) return
+    const state: ToolLocationState = { file: droppedFile }
+    navigate(path, { state })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center space-y-2">
+        <h2 className="text-3xl font-bold flex items-center justify-center gap-2">
+          <Home className="w-8 h-8 text-primary" />
+          Dashboard
+        </h2>
+        <p className="text-muted-foreground max-w-2xl mx-auto">
+          Pick a tool, pick up where you left off, or drop an image to get started
+        </p>
+      </div>
+
+      {/* Tools */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {tools.map((tool) => (
+          <Card
+            key={tool.id}
+            className="cursor-pointer transition-shadow hover:shadow-lg"
+            onClick={() => navigate(tool.path)}
+          >
+            <CardHeader>
+              <div className="flex items-start justify-between">
+                <div className={`w-12 h-12 rounded-xl bg-gradient-to-br ${tool.color} flex items-center justify-center`}>
+                  <tool.icon className="w-6 h-6 text-white" />
+                </div>
+                {tool.badge && <Badge variant="secondary">{tool.badge}</Badge>}
+              </div>
+              <CardTitle className="text-lg">{tool.title}</CardTitle>
+              <CardDescription>{tool.description}</CardDescription>
+            </CardHeader>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Quick Actions */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <RefreshCw className="w-5 h-5" />
+              Quick Start
+            </CardTitle>
+            <CardDescription>
+              Jump back into your recent work
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Button
+              variant="outline"
+              className="w-full justify-between"
+              onClick={rerunLastPrompt}
+              disabled={!lastGenerated}
+            >
+              <span className="truncate">
+                {lastGenerated ? `Re-run "${lastGenerated.prompt}"` : 'Re-run last prompt'}
+              </span>
+              <ArrowRight className="w-4 h-4 ml-2 flex-shrink-0" />
+            </Button>
+            <Button
+              variant="outline"
+              className="w-full justify-between"
+              onClick={continueLastBatch}
+              disabled={!lastBatch}
+            >
+              <span className="flex items-center gap-2 truncate">
+                <Layers className="w-4 h-4" />
+                {lastBatch
+                  ? `Continue batch (${lastBatch.items.length - getUnfinishedItems(lastBatch).length}/${lastBatch.items.length} done)`
+                  : 'Continue last batch'}
+              </span>
+              <ArrowRight className="w-4 h-4 ml-2 flex-shrink-0" />
+            </Button>
+
+            <div
+              className={`border-2 border-dashed rounded-lg p-4 text-center transition-colors ${isDragging ? 'border-primary bg-primary/5' : 'border-muted-foreground/25'}`}
+              onDrop={handleDrop}
+              onDragOver={(e) => {
+                e.preventDefault()
+                setIsDragging(true)
+              }}
+              onDragLeave={() => setIsDragging(false)}
+            >
+              {droppedFile ? (
+                <div className="space-y-3">
+                  <div className="relative">
+                    <img
+                      src={droppedPreview}
+                      alt={droppedFile.name}
+                      className="max-h-32 mx-auto rounded-lg"
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="absolute top-0 right-0"
+                      onClick={clearDroppedFile}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">Send to...</p>
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {imageTools.map((tool) => (
+                      <Button key={tool.id} size="sm" onClick={() => sendToTool(tool.path)}>
+                        <tool.icon className="w-4 h-4 mr-2" />
+                        {tool.shortTitle}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-2 py-4">
+                  <Upload className="w-8 h-8 text-muted-foreground mx-auto" />
+                  <p className="text-sm font-medium">Drop an image here</p>
+                  <p className="text-xs text-muted-foreground">Then choose which tool to process it with</p>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Jobs */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListTodo className="w-5 h-5" />
+              Jobs
+              {activeJobs.length > 0 && <Badge variant="secondary">{activeJobs.length}</Badge>}
+            </CardTitle>
+            <CardDescription>
+              Running and failed work across all tools
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {activeJobs.length === 0 && failedJobs.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Nothing running right now</p>
+            ) : (
+              <div className="space-y-4">
+                {activeJobs.map((job) => (
+                  <div key={job.id} className="space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-medium truncate">{job.label}</p>
+                      <Button size="sm" variant="ghost" onClick={() => cancelJob(job.id)}>
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <JobProgress job={job} />
+                  </div>
+                ))}
+                {failedJobs.map((job) => (
+                  <div
+                    key={job.id}
+                    className="flex items-start gap-2 cursor-pointer"
+                    onClick={() => navigate(getTool(job.tool).path)}
+                  >
+                    <XCircle className="w-4 h-4 text-destructive mt-0.5 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{job.label}</p>
+                      <p className="text-xs text-destructive line-clamp-2">{job.error}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Recent Images */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <Images className="w-5 h-5" />
+                Recent Images
+              </span>
+              <Button size="sm" variant="ghost" onClick={() => navigate('/gallery')}>
+                View all
+              </Button>
+            </CardTitle>
+            <CardDescription>
+              The latest results from every tool
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {recentImages.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No images yet</p>
+            ) : (
+              <div className="grid grid-cols-4 gap-2">
+                {recentImages.map((image) => (
+                  <div
+                    key={image.id}
+                    className="aspect-square rounded-lg overflow-hidden bg-muted cursor-pointer"
+                    onClick={() => navigate(`/gallery/${image.id}`)}
+                  >
+                    <img
+                      src={image.url}
+                      alt={image.prompt}
+                      className="w-full h-full object-cover transition-transform hover:scale-105"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
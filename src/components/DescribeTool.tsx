@@ -0,0 +1,307 @@
+import { useState, useRef } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import {
+  Upload,
+  ScanText,
+  RefreshCw,
+  Image as ImageIcon,
+  Copy
+} from 'lucide-react'
+import { useToast } from '../hooks/use-toast'
+import { useJobs } from '../hooks/use-jobs'
+import { JobProgress } from './JobProgress'
+import { useStore } from '../hooks/use-store'
+import { useSettings } from '../hooks/use-settings'
+import { isCancellation } from '../lib/jobs'
+import { describeImage as runDescribeImage, getDescriptionPrompt } from '../lib/describe-image'
+import { getPromptTarget, getToolsAccepting, type ToolDefinition, type ToolLocationState } from '../lib/tools'
+import { createStore } from '../lib/store'
+
+interface DescribedImage {
+  id: string
+  imageUrl: string
+  filename: string
+  prompt: string
+  tags: string[]
+  createdAt: Date
+}
+
+const describedImagesStore = createStore<DescribedImage[]>([])
+
+export function DescribeTool() {
+  const location = useLocation()
+  const navigate = useNavigate()
+  const { settings } = useSettings()
+  // An image handed over from the dashboard starts out selected
+  const handoff = location.state as ToolLocationState | null
+  const handoffFile = handoff?.file
+  const [selectedFile, setSelectedFile] = useState<File | null>(handoffFile ?? null)
+  const [previewUrl, setPreviewUrl] = useState<string>(() => handoffFile ? URL.createObjectURL(handoffFile) : '')
+  const describedImages = useStore(describedImagesStore)
+  const { activeJobs } = useJobs('describe')
+  const isDescribing = activeJobs.length > 0
+  const currentJob = activeJobs.find(job => job.status === 'running') ?? activeJobs[0]
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  const selectFile = (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      toast({
+        title: "Invalid file type",
+        description: "Please select an image file (PNG, JPG, JPEG, WebP).",
+        variant: "destructive"
+      })
+      return
+    }
+
+    if (file.size > settings.uploads.maxSizeMb * 1024 * 1024) {
+      toast({
+        title: "File too large",
+        description: `Please select an image smaller than ${settings.uploads.maxSizeMb}MB.`,
+        variant: "destructive"
+      })
+      return
+    }
+
+    setSelectedFile(file)
+    const url = URL.createObjectURL(file)
+    setPreviewUrl(url)
+  }
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) selectFile(file)
+  }
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    const file = event.dataTransfer.files[0]
+    if (file) selectFile(file)
+  }
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+  }
+
+  const describeImage = async () => {
+    if (!selectedFile) return
+
+    try {
+      const { imageUrl, prompt, tags } = await runDescribeImage(selectedFile)
+
+      describedImagesStore.set(prev => [{
+        id: `${Date.now()}`,
+        imageUrl,
+        filename: selectedFile.name,
+        prompt,
+        tags,
+        createdAt: new Date()
+      }, ...prev])
+
+      toast({
+        title: "Image described",
+        description: "The prompt is ready to use in the generators."
+      })
+
+      // Reset form
+      setSelectedFile(null)
+      setPreviewUrl('')
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ''
+      }
+
+    } catch (error) {
+      if (isCancellation(error)) {
+        toast({
+          title: "Description cancelled",
+          description: "Describing the image was cancelled."
+        })
+        return
+      }
+      console.error('Error describing image:', error)
+      toast({
+        title: "Description failed",
+        description: "Failed to describe the image. Please try again.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const sendPrompt = (tool: ToolDefinition, image: DescribedImage) => {
+    const target = getPromptTarget(tool, getDescriptionPrompt(image))
+    navigate(target.path, { state: target.state })
+  }
+
+  const copyPrompt = (image: DescribedImage) => {
+    navigator.clipboard.writeText(getDescriptionPrompt(image))
+    toast({
+      title: "Prompt copied",
+      description: "Prompt has been copied to clipboard."
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center space-y-2">
+        <h2 className="text-3xl font-bold flex items-center justify-center gap-2">
+          <ScanText className="w-8 h-8 text-primary" />
+          Image to Prompt
+        </h2>
+        <p className="text-muted-foreground max-w-2xl mx-auto">
+          Describe a reference image as a detailed prompt, then generate something like it - completely free!
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Upload Section */}
+        <div className="lg:col-span-1 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Upload className="w-5 h-5" />
+                Upload Image
+              </CardTitle>
+              <CardDescription>
+                Select a reference image to describe
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div
+                className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-8 text-center cursor-pointer hover:border-primary/50 transition-colors"
+                onDrop={handleDrop}
+                onDragOver={handleDragOver}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*"
+                  onChange={handleFileSelect}
+                  className="hidden"
+                />
+
+                {previewUrl ? (
+                  <div className="space-y-4">
+                    <img
+                      src={previewUrl}
+                      alt="Preview"
+                      className="max-w-full max-h-48 mx-auto rounded-lg"
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      {selectedFile?.name}
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    <ImageIcon className="w-12 h-12 text-muted-foreground mx-auto" />
+                    <div>
+                      <p className="text-sm font-medium">Click to upload or drag and drop</p>
+                      <p className="text-xs text-muted-foreground">PNG, JPG, JPEG, WebP up to {settings.uploads.maxSizeMb}MB</p>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {currentJob && <JobProgress job={currentJob} title="Describing image" />}
+
+              <Button
+                onClick={describeImage}
+                disabled={!selectedFile || isDescribing}
+                className="w-full"
+                size="lg"
+              >
+                {isDescribing ? (
+                  <>
+                    <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                    Describing...
+                  </>
+                ) : (
+                  <>
+                    <ScanText className="w-4 h-4 mr-2" />
+                    Describe Image
+                  </>
+                )}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Results Section */}
+        <div className="lg:col-span-2">
+          <Card className="h-full">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ScanText className="w-5 h-5" />
+                Prompts
+                {describedImages.length > 0 && (
+                  <Badge variant="secondary">{describedImages.length}</Badge>
+                )}
+              </CardTitle>
+              <CardDescription>
+                Prompts written from your images, ready to generate from
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {describedImages.length === 0 ? (
+                <div className="text-center py-12">
+                  <ScanText className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-medium mb-2">No images described yet</h3>
+                  <p className="text-muted-foreground mb-4">
+                    Upload a reference image to get a prompt for something like it
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-6">
+                  {describedImages.map((image) => (
+                    <div key={image.id} className="border rounded-lg p-4 flex flex-col sm:flex-row gap-4">
+                      <div className="w-full sm:w-40 aspect-square shrink-0 rounded-lg overflow-hidden bg-muted">
+                        <img
+                          src={image.imageUrl}
+                          alt={image.filename}
+                          className="w-full h-full object-cover"
+                        />
+                      </div>
+                      <div className="flex-1 min-w-0 space-y-3">
+                        <div>
+                          <h4 className="font-medium truncate">{image.filename}</h4>
+                          <p className="text-sm text-muted-foreground">
+                            Described on {image.createdAt.toLocaleString()}
+                          </p>
+                        </div>
+                        <p className="text-sm">{image.prompt}</p>
+                        {image.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {image.tags.map((tag) => (
+                              <Badge key={tag} variant="outline" className="text-xs">
+                                {tag}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                        <div className="flex flex-wrap gap-2">
+                          {getToolsAccepting('prompt').map((tool) => (
+                            <Button key={tool.id} size="sm" onClick={() => sendPrompt(tool, image)}>
+                              <tool.icon className="w-4 h-4 mr-2" />
+                              Use in {tool.shortTitle}
+                            </Button>
+                          ))}
+                          <Button size="sm" variant="outline" onClick={() => copyPrompt(image)}>
+                            <Copy className="w-4 h-4 mr-2" />
+                            Copy
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,10 +1,13 @@
-import { useState, useEffect, useCallback } from 'react'
-import { blink } from '../blink/client'
+import { useMemo, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
 import { Button } from './ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Input } from './ui/input'
 import { Badge } from './ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible'
+import { Checkbox } from './ui/checkbox'
 import { 
   Images, 
   Search, 
@@ -17,37 +20,71 @@ import {
   List,
   Calendar,
   Tag,
-  Trash2
+  Trash2,
+  Maximize2,
+  Link,
+  RotateCcw,
+  ChevronDown,
+  CheckSquare,
+  Archive,
+  RefreshCw,
+  CopyPlus
 } from 'lucide-react'
 import { useToast } from '../hooks/use-toast'
-
-interface GalleryImage {
-  id: string
-  url: string
-  prompt: string
-  type: 'generated' | 'unblurred' | 'upscaled' | 'background-removed' | 'batch'
-  size?: string
-  quality?: string
-  style?: string
-  scale?: string
-  mode?: string
-  filename?: string
-  createdAt: Date
-  isFavorite: boolean
-}
+import { useGallery } from '../hooks/use-gallery'
+import { useGalleryQuery } from '../hooks/use-gallery-query'
+import { useReproduce } from '../hooks/use-reproduce'
+import { useSettings } from '../hooks/use-settings'
+import { useStore } from '../hooks/use-store'
+import { getGalleryImageBlob, type GalleryImage, type GalleryImageType } from '../lib/gallery'
+import { saveImage } from '../lib/download'
+import { downloadArchive } from '../lib/archive'
+import { isCancellation } from '../lib/jobs'
+import { shareImageUrl } from '../lib/share'
+import { createVariations, pendingVariationsStore } from '../lib/variations'
 
 export function Gallery() {
-  const [images, setImages] = useState<GalleryImage[]>([])
-  const [filteredImages, setFilteredImages] = useState<GalleryImage[]>([])
+  const { images, isLoading, toggleFavorite: toggleImageFavorite, updateImage, removeImage } = useGallery()
   const [searchQuery, setSearchQuery] = useState('')
   const [filterType, setFilterType] = useState('all')
+  // The type and favorites filters are served by the asset store's indexes
+  const { images: queriedImages, isLoading: isQuerying } = useGalleryQuery(
+    filterType === 'all'
+      ? {}
+      : filterType === 'favorites'
+      ? { favoritesOnly: true }
+      : { type: filterType as GalleryImageType }
+  )
   const [sortBy, setSortBy] = useState('newest')
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid')
-  const [isLoading, setIsLoading] = useState(true)
+  const [isSelecting, setIsSelecting] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set())
+  const [isArchiving, setIsArchiving] = useState(false)
+  const { id: openImageId } = useParams()
+  const navigate = useNavigate()
+  const reproduce = useReproduce()
+  const { settings } = useSettings()
+  const pendingVariations = useStore(pendingVariationsStore)
   const { toast } = useToast()
 
+  const openImage = openImageId ? images.find(img => img.id === openImageId) : undefined
+  const provenance = openImage?.provenance
+  const parentImage = provenance?.parentId ? images.find(img => img.id === provenance.parentId) : undefined
+  const childImages = openImage ? images.filter(img => img.provenance?.parentId === openImage.id) : []
+
+  // Number of variations of each image, by the image's id
+  const variationCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    images.forEach(img => {
+      const parentId = img.provenance?.parentId
+      if (parentId) counts.set(parentId, (counts.get(parentId) ?? 0) + 1)
+    })
+    return counts
+  }, [images])
+
   const typeOptions = [
     { value: 'all', label: 'All Images' },
+    { value: 'favorites', label: 'Favorites' },
     { value: 'generated', label: 'Generated' },
     { value: 'unblurred', label: 'Unblurred' },
     { value: 'upscaled', label: 'Upscaled' },
@@ -61,55 +98,18 @@ export function Gallery() {
     { value: 'favorites', label: 'Favorites First' }
   ]
 
-  useEffect(() => {
-    loadImages()
-  }, [])
-
-  useEffect(() => {
-    filterAndSortImages()
-  }, [images, searchQuery, filterType, sortBy, filterAndSortImages])
-
-  const loadImages = async () => {
-    setIsLoading(true)
-    try {
-      // In a real app, this would load from a database
-      // For now, we'll simulate with localStorage
-      const savedImages = localStorage.getItem('gallery-images')
-      if (savedImages) {
-        const parsedImages = JSON.parse(savedImages).map((img: any) => ({
-          ...img,
-          createdAt: new Date(img.createdAt)
-        }))
-        setImages(parsedImages)
-      }
-    } catch (error) {
-      console.error('Error loading images:', error)
-    } finally {
-      setIsLoading(false)
-    }
-  }
-
-  const saveImages = (updatedImages: GalleryImage[]) => {
-    localStorage.setItem('gallery-images', JSON.stringify(updatedImages))
-    setImages(updatedImages)
-  }
-
-  const filterAndSortImages = useCallback(() => {
-    let filtered = [...images]
+  const filteredImages = useMemo(() => {
+    let filtered = [...queriedImages]
 
     // Apply search filter
     if (searchQuery.trim()) {
       filtered = filtered.filter(img => 
         img.prompt.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        img.filename?.toLowerCase().includes(searchQuery.toLowerCase())
+        img.filename?.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        img.tags.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase()))
       )
     }
 
-    // Apply type filter
-    if (filterType !== 'all') {
-      filtered = filtered.filter(img => img.type === filterType)
-    }
-
     // Apply sorting
     filtered.sort((a, b) => {
       switch (sortBy) {
@@ -126,14 +126,11 @@ export function Gallery() {
       }
     })
 
-    setFilteredImages(filtered)
-  }, [images, searchQuery, filterType, sortBy])
+    return filtered
+  }, [queriedImages, searchQuery, sortBy])
 
   const toggleFavorite = (imageId: string) => {
-    const updatedImages = images.map(img => 
-      img.id === imageId ? { ...img, isFavorite: !img.isFavorite } : img
-    )
-    saveImages(updatedImages)
+    toggleImageFavorite(imageId)
     
     toast({
       title: "Favorite updated",
@@ -142,8 +139,10 @@ export function Gallery() {
   }
 
   const deleteImage = (imageId: string) => {
-    const updatedImages = images.filter(img => img.id !== imageId)
-    saveImages(updatedImages)
+    removeImage(imageId)
+    if (imageId === openImageId) {
+      navigate('/gallery')
+    }
     
     toast({
       title: "Image deleted",
@@ -151,18 +150,25 @@ export function Gallery() {
     })
   }
 
-  const downloadImage = async (imageUrl: string, filename: string) => {
+  const addTag = (image: GalleryImage, tag: string) => {
+    if (!tag.trim() || image.tags.includes(tag.trim())) return
+    updateImage(image.id, { tags: [...image.tags, tag.trim()] })
+  }
+
+  const removeTag = (image: GalleryImage, tag: string) => {
+    updateImage(image.id, { tags: image.tags.filter(t => t !== tag) })
+  }
+
+  const downloadImage = async (image: GalleryImage) => {
     try {
-      const response = await fetch(imageUrl)
-      const blob = await response.blob()
-      const url = window.URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = filename
-      document.body.appendChild(a)
-      a.click()
-      window.URL.revokeObjectURL(url)
-      document.body.removeChild(a)
+      const blob = await getGalleryImageBlob(image)
+      await saveImage(blob, {
+        type: image.type,
+        id: image.id,
+        prompt: image.prompt,
+        name: image.filename,
+        createdAt: image.createdAt
+      })
       
       toast({
         title: "Download started",
@@ -177,6 +183,85 @@ export function Gallery() {
     }
   }
 
+  const toggleSelected = (imageId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(imageId)) {
+        next.delete(imageId)
+      } else {
+        next.add(imageId)
+      }
+      return next
+    })
+  }
+
+  const stopSelecting = () => {
+    setIsSelecting(false)
+    setSelectedIds(new Set())
+  }
+
+  const downloadSelected = async () => {
+    // Images deleted since they were selected are left out
+    const selected = images.filter(img => selectedIds.has(img.id))
+    if (selected.length === 0) return
+
+    setIsArchiving(true)
+    try {
+      const { added, failed } = await downloadArchive(`gallery-${Date.now()}`, selected.map(image => ({
+        ...image,
+        load: () => getGalleryImageBlob(image),
+        filename: undefined
+      })))
+      toast({
+        title: "Download started",
+        description: failed > 0
+          ? `Packed ${added} images into a ZIP archive; ${failed} could not be loaded.`
+          : `Packed ${added} images into a ZIP archive.`
+      })
+    } catch (error) {
+      console.error('Error creating gallery archive:', error)
+      toast({
+        title: "Download failed",
+        description: "Failed to create the ZIP archive. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setIsArchiving(false)
+    }
+  }
+
+  const copyImageLink = (imageId: string) => {
+    navigator.clipboard.writeText(`${window.location.origin}/gallery/${imageId}`)
+    toast({
+      title: "Link copied",
+      description: "A link to this image has been copied to clipboard."
+    })
+  }
+
+  const makeVariations = async (image: GalleryImage) => {
+    try {
+      const variations = await createVariations(image, settings.variations.count, 'gallery')
+      toast({
+        title: "Variations created",
+        description: `Generated ${variations.length} variation${variations.length > 1 ? 's' : ''}, linked to the image in your gallery.`
+      })
+    } catch (error) {
+      if (isCancellation(error)) {
+        toast({
+          title: "Variations cancelled",
+          description: "Generating the variations was cancelled."
+        })
+        return
+      }
+      console.error('Error creating variations:', error)
+      toast({
+        title: "Variations failed",
+        description: "Failed to create variations. Please try again.",
+        variant: "destructive"
+      })
+    }
+  }
+
   const copyPrompt = (prompt: string) => {
     navigator.clipboard.writeText(prompt)
     toast({
@@ -186,26 +271,19 @@ export function Gallery() {
   }
 
   const shareImage = async (imageUrl: string, prompt: string) => {
-    if (navigator.share) {
-      try {
-        await navigator.share({
-          title: 'AI Generated Image',
-          text: prompt,
-          url: imageUrl
-        })
-      } catch (error) {
-        // Fallback to copying URL
-        navigator.clipboard.writeText(imageUrl)
+    try {
+      const result = await shareImageUrl(imageUrl, prompt)
+      if (result === 'copied') {
         toast({
           title: "URL copied",
           description: "Image URL has been copied to clipboard."
         })
       }
-    } else {
-      navigator.clipboard.writeText(imageUrl)
+    } catch (error) {
       toast({
-        title: "URL copied",
-        description: "Image URL has been copied to clipboard."
+        title: "Share failed",
+        description: error instanceof Error ? error.message : "The image could not be shared.",
+        variant: "destructive"
       })
     }
   }
@@ -232,7 +310,7 @@ export function Gallery() {
     }
   }
 
-  if (isLoading) {
+  if (isLoading || isQuerying) {
     return (
       <div className="space-y-6">
         <div className="text-center space-y-2">
@@ -276,7 +354,7 @@ export function Gallery() {
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search prompts or filenames..."
+                  placeholder="Search prompts, filenames or tags..."
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="pl-10"
@@ -348,6 +426,38 @@ export function Gallery() {
               Your Images
               <Badge variant="secondary">{filteredImages.length}</Badge>
             </div>
+            {isSelecting ? (
+              <div className="flex flex-wrap items-center justify-end gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setSelectedIds(new Set(filteredImages.map(img => img.id)))}
+                >
+                  Select All
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setSelectedIds(new Set())} disabled={selectedIds.size === 0}>
+                  Clear
+                </Button>
+                <Button size="sm" onClick={downloadSelected} disabled={selectedIds.size === 0 || isArchiving}>
+                  {isArchiving ? (
+                    <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Archive className="w-4 h-4 mr-2" />
+                  )}
+                  Download ZIP ({selectedIds.size})
+                </Button>
+                <Button size="sm" variant="ghost" onClick={stopSelecting}>
+                  Done
+                </Button>
+              </div>
+            ) : (
+              filteredImages.length > 0 && (
+                <Button size="sm" variant="outline" onClick={() => setIsSelecting(true)}>
+                  <CheckSquare className="w-4 h-4 mr-2" />
+                  Select
+                </Button>
+              )
+            )}
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -386,7 +496,14 @@ export function Gallery() {
                             <Button
                               size="sm"
                               variant="secondary"
-                              onClick={() => downloadImage(image.url, `${image.type}-${image.id}.png`)}
+                              onClick={() => navigate(`/gallery/${image.id}`)}
+                            >
+                              <Maximize2 className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="secondary"
+                              onClick={() => downloadImage(image)}
                             >
                               <Download className="w-4 h-4" />
                             </Button>
@@ -411,6 +528,19 @@ export function Gallery() {
                             >
                               <Share2 className="w-4 h-4" />
                             </Button>
+                            <Button
+                              size="sm"
+                              variant="secondary"
+                              title="Variations"
+                              disabled={pendingVariations.includes(image.id)}
+                              onClick={() => makeVariations(image)}
+                            >
+                              {pendingVariations.includes(image.id) ? (
+                                <RefreshCw className="w-4 h-4 animate-spin" />
+                              ) : (
+                                <CopyPlus className="w-4 h-4" />
+                              )}
+                            </Button>
                           </div>
                         </div>
 
@@ -422,11 +552,34 @@ export function Gallery() {
                         </div>
 
                         {/* Favorite Badge */}
-                        {image.isFavorite && (
+                        {image.isFavorite && !isSelecting && (
                           <div className="absolute top-2 right-2">
                             <Heart className="w-4 h-4 fill-red-500 text-red-500" />
                           </div>
                         )}
+
+                        {/* Variations Badge */}
+                        {variationCounts.has(image.id) && (
+                          <div className="absolute bottom-2 right-2">
+                            <Badge variant="secondary" className="text-xs" title="Variations">
+                              <CopyPlus className="w-3 h-3 mr-1" />
+                              {variationCounts.get(image.id)}
+                            </Badge>
+                          </div>
+                        )}
+
+                        {/* Selection covers the overlay, so a click anywhere toggles the image */}
+                        {isSelecting && (
+                          <button
+                            type="button"
+                            className={`absolute inset-0 flex items-start justify-end p-2 rounded-lg transition-colors ${selectedIds.has(image.id) ? 'bg-primary/20 ring-2 ring-primary ring-inset' : 'hover:bg-black/10'}`}
+                            onClick={() => toggleSelected(image.id)}
+                            aria-pressed={selectedIds.has(image.id)}
+                            aria-label={selectedIds.has(image.id) ? 'Deselect image' : 'Select image'}
+                          >
+                            <Checkbox checked={selectedIds.has(image.id)} tabIndex={-1} className="bg-background pointer-events-none" />
+                          </button>
+                        )}
                       </div>
                       
                       <div className="mt-2 space-y-1">
@@ -435,15 +588,33 @@ export function Gallery() {
                           <Calendar className="w-3 h-3" />
                           {image.createdAt.toLocaleDateString()}
                         </div>
+                        {image.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {image.tags.map((tag) => (
+                              <Badge key={tag} variant="outline" className="text-xs">
+                                #{tag}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     </>
                   ) : (
                     <>
+                      {isSelecting && (
+                        <Checkbox
+                          checked={selectedIds.has(image.id)}
+                          onCheckedChange={() => toggleSelected(image.id)}
+                          className="self-center"
+                          aria-label="Select image"
+                        />
+                      )}
                       <div className="w-24 h-24 rounded-lg overflow-hidden bg-muted flex-shrink-0">
                         <img
                           src={image.url}
                           alt={image.prompt}
-                          className="w-full h-full object-cover"
+                          className="w-full h-full object-cover cursor-pointer"
+                          onClick={() => navigate(`/gallery/${image.id}`)}
                         />
                       </div>
                       
@@ -459,17 +630,45 @@ export function Gallery() {
                               {image.isFavorite && (
                                 <Heart className="w-4 h-4 fill-red-500 text-red-500" />
                               )}
+                              {variationCounts.has(image.id) && (
+                                <Badge variant="secondary" className="text-xs" title="Variations">
+                                  <CopyPlus className="w-3 h-3 mr-1" />
+                                  {variationCounts.get(image.id)}
+                                </Badge>
+                              )}
                             </div>
                             <p className="text-xs text-muted-foreground mt-1">
                               {image.createdAt.toLocaleString()}
                             </p>
+                            <div className="flex flex-wrap items-center gap-1 mt-2">
+                              {image.tags.map((tag) => (
+                                <Badge
+                                  key={tag}
+                                  variant="outline"
+                                  className="text-xs cursor-pointer"
+                                  onClick={() => removeTag(image, tag)}
+                                >
+                                  #{tag} ×
+                                </Badge>
+                              ))}
+                              <Input
+                                placeholder="Add tag..."
+                                className="h-7 w-28 text-xs"
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') {
+                                    addTag(image, e.currentTarget.value)
+                                    e.currentTarget.value = ''
+                                  }
+                                }}
+                              />
+                            </div>
                           </div>
                           
                           <div className="flex gap-1">
                             <Button
                               size="sm"
                               variant="ghost"
-                              onClick={() => downloadImage(image.url, `${image.type}-${image.id}.png`)}
+                              onClick={() => downloadImage(image)}
                             >
                               <Download className="w-4 h-4" />
                             </Button>
@@ -494,6 +693,19 @@ export function Gallery() {
                             >
                               <Share2 className="w-4 h-4" />
                             </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title="Variations"
+                              disabled={pendingVariations.includes(image.id)}
+                              onClick={() => makeVariations(image)}
+                            >
+                              {pendingVariations.includes(image.id) ? (
+                                <RefreshCw className="w-4 h-4 animate-spin" />
+                              ) : (
+                                <CopyPlus className="w-4 h-4" />
+                              )}
+                            </Button>
                             <Button
                               size="sm"
                               variant="ghost"
@@ -512,6 +724,184 @@ export function Gallery() {
           )}
         </CardContent>
       </Card>
+
+      {/* Image Detail */}
+      <Dialog open={Boolean(openImageId)} onOpenChange={(open) => !open && navigate('/gallery')}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          {openImage ? (
+            <>
+              <DialogHeader>
+                <DialogTitle className="line-clamp-2 pr-6">{openImage.prompt}</DialogTitle>
+                <DialogDescription className="flex items-center gap-2">
+                  <Badge className={`text-xs ${getTypeColor(openImage.type)}`}>
+                    {getTypeLabel(openImage.type)}
+                  </Badge>
+                  {openImage.createdAt.toLocaleString()}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="rounded-lg overflow-hidden bg-muted">
+                <img
+                  src={openImage.url}
+                  alt={openImage.prompt}
+                  className="w-full max-h-[60vh] object-contain"
+                />
+              </div>
+              {openImage.negativePrompt && (
+                <p className="text-sm text-muted-foreground">
+                  <span className="font-medium">Avoid:</span> {openImage.negativePrompt}
+                </p>
+              )}
+              <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                {openImage.size && <Badge variant="outline">{openImage.size}</Badge>}
+                {openImage.quality && <Badge variant="outline">{openImage.quality} quality</Badge>}
+                {openImage.style && <Badge variant="outline">{openImage.style}</Badge>}
+                {openImage.scale && <Badge variant="outline">{openImage.scale}x</Badge>}
+                {openImage.mode && <Badge variant="outline">{openImage.mode}</Badge>}
+                {openImage.filename && <Badge variant="outline">{openImage.filename}</Badge>}
+                {openImage.tags.map((tag) => (
+                  <Badge key={tag} variant="outline">#{tag}</Badge>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => downloadImage(openImage)}
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Download
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => copyPrompt(openImage.prompt)}>
+                  <Copy className="w-4 h-4 mr-2" />
+                  Copy Prompt
+                </Button>
+                {provenance && (
+                  <Button size="sm" variant="outline" onClick={() => reproduce(provenance)}>
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Reproduce
+                  </Button>
+                )}
+                <Button size="sm" variant="outline" onClick={() => copyImageLink(openImage.id)}>
+                  <Link className="w-4 h-4 mr-2" />
+                  Copy Link
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => toggleFavorite(openImage.id)}>
+                  <Heart className={`w-4 h-4 mr-2 ${openImage.isFavorite ? 'fill-red-500 text-red-500' : ''}`} />
+                  {openImage.isFavorite ? 'Favorited' : 'Favorite'}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => shareImage(openImage.url, openImage.prompt)}>
+                  <Share2 className="w-4 h-4 mr-2" />
+                  Share
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={pendingVariations.includes(openImage.id)}
+                  onClick={() => makeVariations(openImage)}
+                >
+                  {pendingVariations.includes(openImage.id) ? (
+                    <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <CopyPlus className="w-4 h-4 mr-2" />
+                  )}
+                  Variations
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => deleteImage(openImage.id)}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete
+                </Button>
+              </div>
+              {parentImage && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Variation of</p>
+                  <button
+                    type="button"
+                    className="w-16 h-16 rounded-md overflow-hidden bg-muted hover:ring-2 hover:ring-primary"
+                    title={parentImage.prompt}
+                    onClick={() => navigate(`/gallery/${parentImage.id}`)}
+                  >
+                    <img src={parentImage.url} alt={parentImage.prompt} className="w-full h-full object-cover" />
+                  </button>
+                </div>
+              )}
+              {childImages.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Variations ({childImages.length})</p>
+                  <div className="flex flex-wrap gap-2">
+                    {childImages.map((child) => (
+                      <button
+                        key={child.id}
+                        type="button"
+                        className="w-16 h-16 rounded-md overflow-hidden bg-muted hover:ring-2 hover:ring-primary"
+                        title={child.createdAt.toLocaleString()}
+                        onClick={() => navigate(`/gallery/${child.id}`)}
+                      >
+                        <img src={child.url} alt={child.prompt} className="w-full h-full object-cover" />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {provenance && (
+                <Collapsible>
+                  <CollapsibleTrigger asChild>
+                    <Button size="sm" variant="ghost" className="px-0">
+                      <ChevronDown className="w-4 h-4 mr-2" />
+                      Provenance
+                    </Button>
+                  </CollapsibleTrigger>
+                  <CollapsibleContent>
+                    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+                      <dt className="text-muted-foreground">Provider</dt>
+                      <dd>{provenance.provider}{provenance.model && ` (${provenance.model})`}</dd>
+                      <dt className="text-muted-foreground">Sent prompt</dt>
+                      <dd className="whitespace-pre-wrap break-words">{provenance.sentPrompt}</dd>
+                      <dt className="text-muted-foreground">Parameters</dt>
+                      <dd>
+                        {Object.entries(provenance.params)
+                          .filter(([, value]) => value !== undefined)
+                          .map(([key, value]) => `${key}: ${value}`)
+                          .join(', ')}
+                      </dd>
+                      {provenance.seed !== undefined && (
+                        <>
+                          <dt className="text-muted-foreground">Seed</dt>
+                          <dd>{provenance.seed}</dd>
+                        </>
+                      )}
+                      {provenance.requestId && (
+                        <>
+                          <dt className="text-muted-foreground">Request ID</dt>
+                          <dd className="font-mono break-all">{provenance.requestId}</dd>
+                        </>
+                      )}
+                      <dt className="text-muted-foreground">Latency</dt>
+                      <dd>{(provenance.latencyMs / 1000).toFixed(2)}s</dd>
+                      {provenance.sourceImages?.map((source, index) => (
+                        <div key={source} className="contents">
+                          <dt className="text-muted-foreground">Source {index + 1}</dt>
+                          <dd className="break-all">
+                            <a href={source} target="_blank" rel="noreferrer" className="underline">
+                              {source.startsWith('data:') ? 'Embedded image' : source}
+                            </a>
+                          </dd>
+                        </div>
+                      ))}
+                    </dl>
+                  </CollapsibleContent>
+                </Collapsible>
+              )}
+            </>
+          ) : (
+            <DialogHeader>
+              <DialogTitle>Image not found</DialogTitle>
+              <DialogDescription>
+                This image is not in your gallery. It may have been deleted or not synced yet.
+              </DialogDescription>
+            </DialogHeader>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
\ No newline at end of file
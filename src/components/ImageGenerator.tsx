@@ -1,5 +1,5 @@
 import { useState } from 'react'
-import { blink } from '../blink/client'
+import { useLocation, useSearchParams } from 'react-router-dom'
 import { Button } from './ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Input } from './ui/input'
@@ -7,7 +7,6 @@ import { Label } from './ui/label'
 import { Textarea } from './ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { Badge } from './ui/badge'
-import { Progress } from './ui/progress'
 import { Separator } from './ui/separator'
 import { 
   Download, 
@@ -17,31 +16,76 @@ import {
   RefreshCw,
   Copy,
   Heart,
-  Share2
+  Share2,
+  RotateCcw,
+  CopyPlus
 } from 'lucide-react'
 import { useToast } from '../hooks/use-toast'
+import { useJobs } from '../hooks/use-jobs'
+import { JobProgress } from './JobProgress'
+import { NegativePromptField } from './NegativePromptField'
+import { PromptTemplatePanel } from './PromptTemplatePanel'
+import { PromptEnhancer } from './PromptEnhancer'
+import { ReferenceImagesField } from './ReferenceImagesField'
+import { useStore } from '../hooks/use-store'
+import { useSettings } from '../hooks/use-settings'
+import { useReproduce } from '../hooks/use-reproduce'
+import { useGallery } from '../hooks/use-gallery'
+import { addGalleryImages } from '../lib/gallery'
+import { getImageProvider, type ImageQuality, type ImageSize, type ImageStyle } from '../lib/image-provider'
+import { defaultGeneratorParams, parseGeneratorParams, toGeneratorSearch, type GeneratorParams } from '../lib/generator-params'
+import { enqueueJob, isCancellation } from '../lib/jobs'
+import { latencyKey } from '../lib/latency'
+import { fetchResultBlob, saveImage } from '../lib/download'
+import { createStore } from '../lib/store'
+import { createProvenance, type Provenance } from '../lib/provenance'
+import { shareImageUrl } from '../lib/share'
+import { referenceFromUrl, uploadReferences, type ReferenceImage } from '../lib/reference-images'
+import { createVariations, pendingVariationsStore } from '../lib/variations'
+import type { ToolLocationState } from '../lib/tools'
 
 interface GeneratedImage {
   id: string
   url: string
   prompt: string
+  negativePrompt?: string
   size: string
   quality: string
   style: string
   createdAt: Date
+  provenance: Provenance
 }
 
+const generatedImagesStore = createStore<GeneratedImage[]>([])
+
 export function ImageGenerator() {
-  const [prompt, setPrompt] = useState('')
-  const [size, setSize] = useState('1024x1024')
-  const [quality, setQuality] = useState('high')
-  const [style, setStyle] = useState('natural')
-  const [numImages, setNumImages] = useState(1)
-  const [isGenerating, setIsGenerating] = useState(false)
-  const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([])
-  const [progress, setProgress] = useState(0)
+  const [searchParams, setSearchParams] = useSearchParams()
+  const { settings } = useSettings()
+  const defaults = { ...defaultGeneratorParams, ...settings.generator }
+  const { prompt, negativePrompt, size, quality, style, count: numImages } = parseGeneratorParams(searchParams, defaults)
+  const location = useLocation()
+  // References of a reproduced result come back through router state
+  const [references, setReferences] = useState<ReferenceImage[]>(() =>
+    (location.state as ToolLocationState | null)?.reproduce?.sourceImages?.map((url, index) =>
+      referenceFromUrl(url, `Reference ${index + 1}`)
+    ) ?? []
+  )
+  const generatedImages = useStore(generatedImagesStore)
+  const pendingVariations = useStore(pendingVariationsStore)
+  const { activeJobs } = useJobs('generator')
+  const isGenerating = activeJobs.length > 0
+  const currentJob = activeJobs.find(job => job.status === 'running') ?? activeJobs[0]
+  const reproduce = useReproduce()
+  // Results share their id with the gallery copy, so favorites stay in step with the Gallery
+  const { images: galleryImages, toggleFavorite: toggleGalleryFavorite } = useGallery()
   const { toast } = useToast()
 
+  // The setup lives in the query string so links reproduce it. Typing
+  // replaces the current history entry; picking an option adds one.
+  const updateParams = (changes: Partial<GeneratorParams>, replace = false) => {
+    setSearchParams(prev => toGeneratorSearch({ ...parseGeneratorParams(prev, defaults), ...changes }), { replace })
+  }
+
   const stylePresets = [
     { value: 'natural', label: 'Natural', description: 'Realistic and natural looking' },
     { value: 'vivid', label: 'Vivid', description: 'Bold and vibrant colors' }
@@ -70,43 +114,87 @@ export function ImageGenerator() {
       return
     }
 
-    setIsGenerating(true)
-    setProgress(0)
+    const negative = negativePrompt.trim() || undefined
 
     try {
-      // Simulate progress
-      const progressInterval = setInterval(() => {
-        setProgress(prev => {
-          if (prev >= 90) {
-            clearInterval(progressInterval)
-            return 90
-          }
-          return prev + 10
-        })
-      }, 500)
-
-      const { data } = await blink.ai.generateImage({
-        prompt: prompt.trim(),
-        size: size as '1024x1024' | '1792x1024' | '1024x1792',
-        quality: quality as 'auto' | 'low' | 'medium' | 'high',
-        style: style as 'natural' | 'vivid',
-        n: numImages
-      })
+      // With references the images are variations of them, made through the
+      // modify endpoint, which takes hosted images and has no style option
+      const uploaded = references.length > 0 ? await uploadReferences(references, 'generator') : []
+      if (uploaded.length > 0) {
+        // Keep the uploaded URLs so generating again skips the upload
+        setReferences(prev => prev.map(reference => uploaded.find(u => u.id === reference.id) ?? reference))
+      }
+      const sourceImages = uploaded.map(reference => reference.url)
+      const isVariation = sourceImages.length > 0
 
-      clearInterval(progressInterval)
-      setProgress(100)
+      const { newImages, blobs } = await enqueueJob({
+        kind: isVariation ? 'modify' : 'generate',
+        tool: 'generator',
+        label: `Generate: ${prompt.trim()}`,
+        run: async ({ signal, setPhase, setProgress }) => {
+          setPhase('generating', {
+            label: `Generating ${numImages} image${numImages > 1 ? 's' : ''}`,
+            latencyKey: latencyKey(isVariation ? 'generator-reference' : 'generator', quality)
+          })
+          const provider = getImageProvider()
+          const startedAt = performance.now()
+          const results = isVariation
+            ? await provider.modifyImage({
+                images: sourceImages,
+                prompt: prompt.trim(),
+                negativePrompt: negative,
+                size,
+                quality,
+                n: numImages,
+                signal
+              })
+            : await provider.generateImage({
+                prompt: prompt.trim(),
+                negativePrompt: negative,
+                size,
+                quality,
+                style,
+                n: numImages,
+                signal
+              })
+          const latencyMs = Math.round(performance.now() - startedAt)
 
-      const newImages: GeneratedImage[] = data.map((img, index) => ({
-        id: `${Date.now()}-${index}`,
-        url: img.url,
-        prompt,
-        size,
-        quality,
-        style,
-        createdAt: new Date()
-      }))
+          setPhase('downloading')
+          const blobs: (Blob | undefined)[] = []
+          for (const [index, img] of results.entries()) {
+            blobs.push(await fetchResultBlob(img.url, {
+              signal,
+              onProgress: (percent) => setProgress((index * 100 + percent) / results.length)
+            }))
+          }
+
+          const newImages = results.map((img, index): GeneratedImage => ({
+            id: `${Date.now()}-${index}`,
+            url: img.url,
+            prompt,
+            negativePrompt: negative,
+            size,
+            quality,
+            style,
+            createdAt: new Date(),
+            provenance: createProvenance(provider, img, {
+              tool: 'generator',
+              operation: isVariation ? 'modify' : 'generate',
+              prompt: prompt.trim(),
+              negativePrompt: negative,
+              params: isVariation ? { size, quality, n: numImages } : { size, quality, style, n: numImages },
+              latencyMs,
+              sourceImages: isVariation ? sourceImages : undefined
+            })
+          }))
+          return { newImages, blobs }
+        }
+      }).promise
 
-      setGeneratedImages(prev => [...newImages, ...prev])
+      generatedImagesStore.set(prev => [...newImages, ...prev])
+      if (settings.autoSaveToGallery) {
+        addGalleryImages(newImages.map((image, index) => ({ ...image, type: 'generated' as const, blob: blobs[index] })))
+      }
 
       toast({
         title: "Images generated successfully!",
@@ -114,30 +202,30 @@ export function ImageGenerator() {
       })
 
     } catch (error) {
+      if (isCancellation(error)) {
+        toast({
+          title: "Generation cancelled",
+          description: "The image generation was cancelled."
+        })
+        return
+      }
       console.error('Error generating image:', error)
       toast({
         title: "Generation failed",
         description: "Failed to generate image. Please try again.",
         variant: "destructive"
       })
-    } finally {
-      setIsGenerating(false)
-      setProgress(0)
     }
   }
 
-  const handleDownload = async (imageUrl: string, prompt: string) => {
+  const handleDownload = async (image: GeneratedImage) => {
     try {
-      const response = await fetch(imageUrl)
-      const blob = await response.blob()
-      const url = window.URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = `ai-generated-${prompt.slice(0, 30).replace(/[^a-zA-Z0-9]/g, '-')}.png`
-      document.body.appendChild(a)
-      a.click()
-      window.URL.revokeObjectURL(url)
-      document.body.removeChild(a)
+      await saveImage(image.url, {
+        type: 'generated',
+        id: image.id,
+        prompt: image.prompt,
+        createdAt: image.createdAt
+      })
       
       toast({
         title: "Download started",
@@ -152,6 +240,73 @@ export function ImageGenerator() {
     }
   }
 
+  // Favoriting a result that is not in the gallery yet saves it there
+  const toggleFavorite = (image: GeneratedImage) => {
+    const saved = galleryImages.find(galleryImage => galleryImage.id === image.id)
+    if (saved) {
+      toggleGalleryFavorite(image.id)
+      toast({
+        title: saved.isFavorite ? "Removed from favorites" : "Added to favorites",
+        description: saved.isFavorite
+          ? "The image is no longer a favorite."
+          : "The image is marked as a favorite in your gallery."
+      })
+      return
+    }
+    addGalleryImages([{ ...image, type: 'generated', isFavorite: true }])
+    toast({
+      title: "Added to favorites",
+      description: "The image was saved to your gallery as a favorite."
+    })
+  }
+
+  const shareImage = async (image: GeneratedImage) => {
+    try {
+      const result = await shareImageUrl(image.url, image.prompt)
+      if (result === 'copied') {
+        toast({
+          title: "URL copied",
+          description: "Image URL has been copied to clipboard."
+        })
+      }
+    } catch (error) {
+      toast({
+        title: "Share failed",
+        description: error instanceof Error ? error.message : "The image could not be shared.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  // Variations go to the gallery under the image even without auto-save, so they stay linked
+  const makeVariations = async (image: GeneratedImage) => {
+    try {
+      const variations = await createVariations({ ...image, type: 'generated' }, settings.variations.count, 'generator')
+      generatedImagesStore.set(prev => [
+        ...variations.map(variation => ({ ...variation, size: image.size, quality: image.quality, style: image.style })),
+        ...prev
+      ])
+      toast({
+        title: "Variations created",
+        description: `Generated ${variations.length} variation${variations.length > 1 ? 's' : ''} and saved them to your gallery.`
+      })
+    } catch (error) {
+      if (isCancellation(error)) {
+        toast({
+          title: "Variations cancelled",
+          description: "Generating the variations was cancelled."
+        })
+        return
+      }
+      console.error('Error creating variations:', error)
+      toast({
+        title: "Variations failed",
+        description: "Failed to create variations. Please try again.",
+        variant: "destructive"
+      })
+    }
+  }
+
   const copyPrompt = (prompt: string) => {
     navigator.clipboard.writeText(prompt)
     toast({
@@ -186,22 +341,38 @@ export function ImageGenerator() {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              <PromptTemplatePanel
+                mode="fill"
+                onUse={([expansion]) => updateParams({ prompt: expansion.prompt })}
+              />
+
               <div className="space-y-2">
-                <Label htmlFor="prompt">Prompt</Label>
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="prompt">Prompt</Label>
+                  <PromptEnhancer value={prompt} onChange={(value) => updateParams({ prompt: value })} />
+                </div>
                 <Textarea
                   id="prompt"
                   placeholder="Describe the image you want to generate..."
                   value={prompt}
-                  onChange={(e) => setPrompt(e.target.value)}
+                  onChange={(e) => updateParams({ prompt: e.target.value }, true)}
                   rows={4}
                   className="resize-none"
                 />
               </div>
 
+              <NegativePromptField
+                id="negativePrompt"
+                value={negativePrompt}
+                onChange={(value) => updateParams({ negativePrompt: value }, true)}
+              />
+
+              <ReferenceImagesField references={references} onChange={setReferences} />
+
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="size">Size</Label>
-                  <Select value={size} onValueChange={setSize}>
+                  <Select value={size} onValueChange={(value) => updateParams({ size: value as ImageSize })}>
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
@@ -220,7 +391,7 @@ export function ImageGenerator() {
 
                 <div className="space-y-2">
                   <Label htmlFor="quality">Quality</Label>
-                  <Select value={quality} onValueChange={setQuality}>
+                  <Select value={quality} onValueChange={(value) => updateParams({ quality: value as ImageQuality })}>
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
@@ -241,7 +412,11 @@ export function ImageGenerator() {
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="style">Style</Label>
-                  <Select value={style} onValueChange={setStyle}>
+                  <Select
+                    value={style}
+                    onValueChange={(value) => updateParams({ style: value as ImageStyle })}
+                    disabled={references.length > 0}
+                  >
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
@@ -260,7 +435,7 @@ export function ImageGenerator() {
 
                 <div className="space-y-2">
                   <Label htmlFor="numImages">Count</Label>
-                  <Select value={numImages.toString()} onValueChange={(value) => setNumImages(parseInt(value))}>
+                  <Select value={numImages.toString()} onValueChange={(value) => updateParams({ count: parseInt(value) })}>
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
@@ -275,15 +450,7 @@ export function ImageGenerator() {
                 </div>
               </div>
 
-              {isGenerating && (
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between text-sm">
-                    <span>Generating...</span>
-                    <span>{progress}%</span>
-                  </div>
-                  <Progress value={progress} className="w-full" />
-                </div>
-              )}
+              {currentJob && <JobProgress job={currentJob} />}
 
               <Button 
                 onClick={handleGenerate} 
@@ -332,68 +499,121 @@ export function ImageGenerator() {
                   </div>
                 ) : (
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {generatedImages.map((image) => (
-                      <div key={image.id} className="group relative">
-                        <div className="aspect-square rounded-lg overflow-hidden bg-muted">
-                          <img
-                            src={image.url}
-                            alt={image.prompt}
-                            className="w-full h-full object-cover transition-transform group-hover:scale-105"
-                          />
-                        </div>
+                    {generatedImages.map((image) => {
+                      const isFavorite = galleryImages.some(galleryImage => galleryImage.id === image.id && galleryImage.isFavorite)
+                      return (
+                        <div key={image.id} className="group relative">
+                          <div className="aspect-square rounded-lg overflow-hidden bg-muted">
+                            <img
+                              src={image.url}
+                              alt={image.prompt}
+                              className="w-full h-full object-cover transition-transform group-hover:scale-105"
+                            />
+                          </div>
                         
-                        {/* Image Overlay */}
-                        <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg flex items-center justify-center">
-                          <div className="flex gap-2">
-                            <Button
-                              size="sm"
-                              variant="secondary"
-                              onClick={() => handleDownload(image.url, image.prompt)}
-                            >
-                              <Download className="w-4 h-4" />
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="secondary"
-                              onClick={() => copyPrompt(image.prompt)}
-                            >
-                              <Copy className="w-4 h-4" />
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="secondary"
-                            >
-                              <Heart className="w-4 h-4" />
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="secondary"
-                            >
-                              <Share2 className="w-4 h-4" />
-                            </Button>
+                          {/* Image Overlay */}
+                          <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg flex items-center justify-center">
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                variant="secondary"
+                                onClick={() => handleDownload(image)}
+                              >
+                                <Download className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="secondary"
+                                onClick={() => copyPrompt(image.prompt)}
+                              >
+                                <Copy className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="secondary"
+                                title="Reproduce"
+                                onClick={() => reproduce(image.provenance)}
+                              >
+                                <RotateCcw className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="secondary"
+                                title={isFavorite ? "Remove from favorites" : "Add to favorites"}
+                                onClick={() => toggleFavorite(image)}
+                              >
+                                <Heart className={`w-4 h-4 ${isFavorite ? 'fill-red-500 text-red-500' : ''}`} />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="secondary"
+                                title="Share"
+                                onClick={() => shareImage(image)}
+                              >
+                                <Share2 className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="secondary"
+                                title="Variations"
+                                disabled={pendingVariations.includes(image.id)}
+                                onClick={() => makeVariations(image)}
+                              >
+                                {pendingVariations.includes(image.id) ? (
+                                  <RefreshCw className="w-4 h-4 animate-spin" />
+                                ) : (
+                                  <CopyPlus className="w-4 h-4" />
+                                )}
+                              </Button>
+                            </div>
                           </div>
-                        </div>
 
-                        {/* Image Info */}
-                        <div className="mt-2 space-y-1">
-                          <p className="text-sm font-medium line-clamp-2">{image.prompt}</p>
-                          <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                            <Badge variant="outline" className="text-xs">
-                              {image.size}
-                            </Badge>
-                            <Badge variant="outline" className="text-xs">
-                              {image.quality}
-                            </Badge>
-                            <Badge variant="outline" className="text-xs">
-                              {image.style}
-                            </Badge>
+                          {/* Favorite Badge */}
+                          {isFavorite && (
+                            <div className="absolute top-2 right-2">
+                              <Heart className="w-4 h-4 fill-red-500 text-red-500" />
+                            </div>
+                          )}
+
+                          {/* Image Info */}
+                          <div className="mt-2 space-y-1">
+                            <p className="text-sm font-medium line-clamp-2">{image.prompt}</p>
+                            {image.negativePrompt && (
+                              <p className="text-xs text-muted-foreground line-clamp-1">
+                                Avoid: {image.negativePrompt}
+                              </p>
+                            )}
+                            {image.provenance.sourceImages && (
+                              <div className="flex items-center gap-1">
+                                <span className="text-xs text-muted-foreground">From</span>
+                                {image.provenance.sourceImages.map((source, index) => (
+                                  <img
+                                    key={index}
+                                    src={source}
+                                    alt={`Reference ${index + 1}`}
+                                    className="w-6 h-6 rounded object-cover"
+                                  />
+                                ))}
+                              </div>
+                            )}
+                            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                              <Badge variant="outline" className="text-xs">
+                                {image.size}
+                              </Badge>
+                              <Badge variant="outline" className="text-xs">
+                                {image.quality}
+                              </Badge>
+                              <Badge variant="outline" className="text-xs">
+                                {image.style}
+                              </Badge>
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                              {image.createdAt.toLocaleString()}
+                            </p>
                           </div>
-                          <p className="text-xs text-muted-foreground">
-                            {image.createdAt.toLocaleString()}
-                          </p>
                         </div>
-                      </div>
-                    ))}
+                      )
+                    })}
                   </div>
                 )}
               </CardContent>
@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react'
+import { Progress } from './ui/progress'
+import { getJobEta, isJobActive, type Job } from '../lib/jobs'
+import { cn, formatDuration } from '../lib/utils'
+
+interface JobProgressProps {
+  job: Job
+  /** Prefixed to the phase label, e.g. the item being processed */
+  title?: string
+  className?: string
+}
+
+export function JobProgress({ job, title, className }: JobProgressProps) {
+  const [now, setNow] = useState(() => Date.now())
+  const active = isJobActive(job)
+
+  // Keep elapsed time moving for phases that report no progress events
+  useEffect(() => {
+    if (!active) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [active])
+
+  const elapsed = Math.max(0, now - job.phaseStartedAt.getTime())
+  const eta = getJobEta(job, now)
+  const label = title ? `${title}: ${job.phaseLabel}` : job.phaseLabel
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center justify-between text-sm">
+        <span>{label}...</span>
+        {job.status === 'running' && <span>{Math.round(job.progress)}%</span>}
+      </div>
+      <Progress value={job.status === 'running' ? job.progress : 0} className="w-full" />
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{formatDuration(elapsed)} elapsed</span>
+        {eta !== undefined && (
+          <span>{eta > 0 ? `about ${formatDuration(eta)} left` : 'Almost done'}</span>
+        )}
+      </div>
+    </div>
+  )
+}
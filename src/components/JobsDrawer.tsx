@@ -0,0 +1,117 @@
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { ScrollArea } from './ui/scroll-area'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from './ui/sheet'
+import {
+  ListTodo,
+  X,
+  CheckCircle2,
+  XCircle,
+  Clock,
+  RefreshCw,
+  Ban
+} from 'lucide-react'
+import { useJobs } from '../hooks/use-jobs'
+import { JobProgress } from './JobProgress'
+import { isJobActive, type Job } from '../lib/jobs'
+import { formatDuration } from '../lib/utils'
+import { getTool } from '../lib/tools'
+
+export function JobsDrawer() {
+  const { jobs, activeJobs, cancelJob, clearFinishedJobs } = useJobs()
+
+  const getStatusBadge = (job: Job) => {
+    switch (job.status) {
+      case 'queued':
+        return <Badge variant="outline"><Clock className="w-3 h-3 mr-1" />Queued</Badge>
+      case 'running':
+        return <Badge variant="secondary"><RefreshCw className="w-3 h-3 mr-1 animate-spin" />Running</Badge>
+      case 'succeeded':
+        return <Badge variant="default"><CheckCircle2 className="w-3 h-3 mr-1" />Done</Badge>
+      case 'failed':
+        return <Badge variant="destructive"><XCircle className="w-3 h-3 mr-1" />Failed</Badge>
+      case 'cancelled':
+        return <Badge variant="outline"><Ban className="w-3 h-3 mr-1" />Cancelled</Badge>
+    }
+  }
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="relative">
+          <ListTodo className="w-4 h-4 mr-2" />
+          Jobs
+          {activeJobs.length > 0 && (
+            <Badge variant="default" className="ml-2 px-1.5">{activeJobs.length}</Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Background Jobs</SheetTitle>
+          <SheetDescription>
+            Jobs keep running while you switch between tools
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={clearFinishedJobs}
+            disabled={jobs.length === activeJobs.length}
+          >
+            Clear finished
+          </Button>
+        </div>
+
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          {jobs.length === 0 ? (
+            <div className="text-center py-12">
+              <ListTodo className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-sm text-muted-foreground">No jobs yet</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {jobs.map((job) => (
+                <div key={job.id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium line-clamp-2">{job.label}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {getTool(job.tool).shortTitle} • {job.kind} • {job.createdAt.toLocaleTimeString()}
+                      </p>
+                    </div>
+                    {isJobActive(job) && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => cancelJob(job.id)}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                  {getStatusBadge(job)}
+                  {isJobActive(job) ? (
+                    <JobProgress job={job} />
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      {job.phases
+                        .filter((record) => record.finishedAt)
+                        .map((record) => `${record.label} ${formatDuration(record.finishedAt!.getTime() - record.startedAt.getTime())}`)
+                        .join(' • ')}
+                    </p>
+                  )}
+                  {job.error && (
+                    <p className="text-xs text-destructive">{job.error}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  )
+}
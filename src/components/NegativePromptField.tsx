@@ -0,0 +1,131 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue
+} from './ui/select'
+import { BookmarkPlus } from 'lucide-react'
+import { useToast } from '../hooks/use-toast'
+import { useStore } from '../hooks/use-store'
+import {
+  applyNegativePromptPreset,
+  builtInNegativePrompts,
+  negativePromptPresetsStore,
+  saveNegativePromptPreset
+} from '../lib/negative-prompts'
+
+interface NegativePromptFieldProps {
+  id: string
+  value: string
+  onChange: (value: string) => void
+}
+
+export function NegativePromptField({ id, value, onChange }: NegativePromptFieldProps) {
+  const savedPresets = useStore(negativePromptPresetsStore)
+  const [isSaveOpen, setIsSaveOpen] = useState(false)
+  const [presetName, setPresetName] = useState('')
+  const { toast } = useToast()
+
+  const presets = [...builtInNegativePrompts, ...savedPresets]
+
+  const selectPreset = (presetId: string) => {
+    const preset = presets.find(p => p.id === presetId)
+    if (preset) {
+      onChange(applyNegativePromptPreset(value, preset))
+    }
+  }
+
+  const savePreset = () => {
+    if (!presetName.trim() || !value.trim()) return
+    const preset = saveNegativePromptPreset(presetName, value)
+    setPresetName('')
+    setIsSaveOpen(false)
+    toast({
+      title: "Preset saved",
+      description: `"${preset.name}" is now available in the presets list.`
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={id}>Negative Prompt</Label>
+        <div className="flex items-center gap-1">
+          {/* Always reset so picking the same preset again still fires */}
+          <Select value="" onValueChange={selectPreset}>
+            <SelectTrigger className="h-8 w-[120px] text-xs">
+              <SelectValue placeholder="Presets" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                <SelectLabel>Built-in</SelectLabel>
+                {builtInNegativePrompts.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+              {savedPresets.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Saved</SelectLabel>
+                  {savedPresets.map((preset) => (
+                    <SelectItem key={preset.id} value={preset.id}>
+                      {preset.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+            </SelectContent>
+          </Select>
+          <Popover open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+            <PopoverTrigger asChild>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8"
+                disabled={!value.trim()}
+                title="Save as preset"
+              >
+                <BookmarkPlus className="w-4 h-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-64 space-y-2">
+              <Label htmlFor={`${id}-preset-name`}>Preset name</Label>
+              <div className="flex gap-2">
+                <Input
+                  id={`${id}-preset-name`}
+                  placeholder="e.g. Product shots"
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') savePreset()
+                  }}
+                />
+                <Button size="sm" onClick={savePreset} disabled={!presetName.trim()}>
+                  Save
+                </Button>
+              </div>
+            </PopoverContent>
+          </Popover>
+        </div>
+      </div>
+      <Textarea
+        id={id}
+        placeholder="What to keep out of the image (e.g. text, watermarks, extra fingers)"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        rows={2}
+        className="resize-none"
+      />
+    </div>
+  )
+}
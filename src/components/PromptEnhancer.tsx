@@ -0,0 +1,144 @@
+import { useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { RefreshCw, Undo2, Wand2 } from 'lucide-react'
+import { useToast } from '../hooks/use-toast'
+import { isCancellation } from '../lib/jobs'
+import { enhancePrompt, enhanceStrategies, getEnhanceStrategy, type EnhanceStrategyId } from '../lib/prompt-enhancer'
+import { diffWords } from '../lib/text-diff'
+
+interface PromptEnhancerProps {
+  value: string
+  onChange: (value: string) => void
+}
+
+/**
+ * Rewrites the prompt with the text model. The rewrite is shown as a diff
+ * before it replaces the prompt, and the original can be restored until the
+ * prompt is edited again.
+ */
+export function PromptEnhancer({ value, onChange }: PromptEnhancerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [strategyId, setStrategyId] = useState<EnhanceStrategyId>('photographic')
+  const [isEnhancing, setIsEnhancing] = useState(false)
+  const [suggestion, setSuggestion] = useState<string | null>(null)
+  const [applied, setApplied] = useState<{ original: string; enhanced: string } | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const { toast } = useToast()
+
+  const changeOpen = (open: boolean) => {
+    setIsOpen(open)
+    if (!open) {
+      abortRef.current?.abort()
+      setSuggestion(null)
+    }
+  }
+
+  const enhance = async () => {
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsEnhancing(true)
+    try {
+      setSuggestion(await enhancePrompt(value, strategyId, controller.signal))
+    } catch (error) {
+      if (isCancellation(error)) return
+      console.error('Error enhancing prompt:', error)
+      toast({
+        title: "Enhance failed",
+        description: error instanceof Error ? error.message : "The prompt could not be rewritten. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      if (abortRef.current === controller) {
+        setIsEnhancing(false)
+      }
+    }
+  }
+
+  const apply = () => {
+    if (!suggestion) return
+    setApplied({ original: value, enhanced: suggestion })
+    onChange(suggestion)
+    changeOpen(false)
+  }
+
+  const undo = () => {
+    if (!applied) return
+    onChange(applied.original)
+    setApplied(null)
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      {applied && applied.enhanced === value && (
+        <Button size="sm" variant="ghost" className="h-8" title="Restore the original prompt" onClick={undo}>
+          <Undo2 className="w-4 h-4" />
+        </Button>
+      )}
+      <Popover open={isOpen} onOpenChange={changeOpen}>
+        <PopoverTrigger asChild>
+          <Button size="sm" variant="outline" className="h-8" disabled={!value.trim()}>
+            <Wand2 className="w-4 h-4 mr-2" />
+            Enhance
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 space-y-3">
+          <div className="space-y-2">
+            <Label>Rewrite as</Label>
+            <Select
+              value={strategyId}
+              onValueChange={(id) => {
+                setStrategyId(id as EnhanceStrategyId)
+                setSuggestion(null)
+              }}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {enhanceStrategies.map((strategy) => (
+                  <SelectItem key={strategy.id} value={strategy.id}>
+                    {strategy.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{getEnhanceStrategy(strategyId).description}</p>
+          </div>
+
+          {suggestion && (
+            <p className="rounded-md border p-2 text-sm max-h-48 overflow-y-auto">
+              {diffWords(value, suggestion).map((part, index) => (
+                <span
+                  key={index}
+                  className={
+                    part.type === 'added' ? 'bg-green-100 text-green-800' :
+                    part.type === 'removed' ? 'bg-red-100 text-red-800 line-through' :
+                    undefined
+                  }
+                >
+                  {part.text}
+                </span>
+              ))}
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant={suggestion ? 'outline' : 'default'} onClick={enhance} disabled={isEnhancing}>
+              {isEnhancing && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+              {suggestion ? 'Try Again' : 'Enhance'}
+            </Button>
+            {suggestion && (
+              <Button size="sm" onClick={apply} disabled={isEnhancing}>
+                Use Prompt
+              </Button>
+            )}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
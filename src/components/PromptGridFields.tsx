@@ -0,0 +1,135 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import {
+  getDefaultAxis,
+  getGridParamOptions,
+  gridParamLabels,
+  gridParams,
+  type GridAxis,
+  type GridParam,
+  type PromptGrid
+} from '../lib/prompt-grid'
+
+interface PromptGridFieldsProps {
+  grid: PromptGrid
+  onChange: (grid: PromptGrid) => void
+}
+
+// One fragment per line; the text is kept as typed so blank lines can be added
+function FragmentsField({ id, values, onChange }: { id: string; values: string[]; onChange: (values: string[]) => void }) {
+  const [text, setText] = useState(values.join('\n'))
+
+  return (
+    <Textarea
+      id={id}
+      placeholder={'One fragment per line, e.g.\nat sunset\nin the rain'}
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value)
+        onChange(e.target.value.split('\n').map(line => line.trim()).filter(Boolean))
+      }}
+      rows={3}
+      className="resize-none text-sm"
+    />
+  )
+}
+
+interface AxisFieldProps {
+  id: string
+  label: string
+  axis: GridAxis | undefined
+  /** Param of the other axis, which this one cannot compare again */
+  otherParam?: GridParam
+  optional?: boolean
+  onChange: (axis: GridAxis | undefined) => void
+}
+
+function AxisField({ id, label, axis, otherParam, optional, onChange }: AxisFieldProps) {
+  const options = axis ? getGridParamOptions(axis.param) : null
+
+  // Values keep the order of the options, and at least one stays picked
+  const toggleValue = (value: string) => {
+    if (!axis || !options) return
+    const values = axis.values.includes(value)
+      ? axis.values.filter(v => v !== value)
+      : options.filter(option => option === value || axis.values.includes(option))
+    if (values.length > 0) onChange({ ...axis, values })
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={`${id}-values`}>{label}</Label>
+        <Select
+          value={axis?.param ?? 'none'}
+          onValueChange={(value) => onChange(value === 'none' ? undefined : getDefaultAxis(value as GridParam))}
+        >
+          <SelectTrigger className="h-8 w-[150px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {optional && <SelectItem value="none">None</SelectItem>}
+            {gridParams
+              .filter(param => param === 'prompt' || param !== otherParam)
+              .map(param => (
+                <SelectItem key={param} value={param}>
+                  {gridParamLabels[param]}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {axis && (options ? (
+        <div id={`${id}-values`} className="flex flex-wrap gap-1">
+          {options.map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={axis.values.includes(option) ? 'default' : 'outline'}
+              className="h-7 text-xs"
+              onClick={() => toggleValue(option)}
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+      ) : (
+        <FragmentsField
+          key={axis.param}
+          id={`${id}-values`}
+          values={axis.values}
+          onChange={(values) => onChange({ ...axis, values })}
+        />
+      ))}
+    </div>
+  )
+}
+
+/** Picks the parameters an XY grid compares and the values along each axis */
+export function PromptGridFields({ grid, onChange }: PromptGridFieldsProps) {
+  return (
+    <div className="space-y-4">
+      <AxisField
+        id="gridX"
+        label="Columns (X)"
+        axis={grid.x}
+        otherParam={grid.y?.param}
+        onChange={(x) => x && onChange({ ...grid, x })}
+      />
+      <AxisField
+        id="gridY"
+        label="Rows (Y)"
+        axis={grid.y}
+        otherParam={grid.x.param}
+        optional
+        onChange={(y) => onChange({ ...grid, y })}
+      />
+      <p className="text-xs text-muted-foreground">
+        Prompt fragments are added to the prompt. Parameters no axis compares use the settings below.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,257 @@
+import { useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Badge } from './ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from './ui/dialog'
+import { BookOpen, Plus, Trash2, Upload, Download, Save } from 'lucide-react'
+import { useToast } from '../hooks/use-toast'
+import { useStore } from '../hooks/use-store'
+import { downloadBlob } from '../lib/download'
+import {
+  countTemplateExpansions,
+  deletePromptTemplate,
+  exportPromptTemplates,
+  importPromptTemplates,
+  promptTemplatesStore,
+  savePromptTemplate,
+  syncTemplateVariables,
+  type PromptTemplate,
+  type TemplateVariable
+} from '../lib/prompt-templates'
+
+interface TemplateDraft {
+  id?: string
+  name: string
+  text: string
+  variables: TemplateVariable[]
+}
+
+const emptyDraft: TemplateDraft = { name: '', text: '', variables: [] }
+
+// Choices are edited as one line separated by |
+const CHOICE_SEPARATOR = '|'
+
+function parseChoices(value: string) {
+  return [...new Set(value.split(CHOICE_SEPARATOR).map(choice => choice.trim()).filter(Boolean))]
+}
+
+export function PromptTemplateLibrary() {
+  const templates = useStore(promptTemplatesStore)
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<TemplateDraft>(emptyDraft)
+  // Raw text of the choice inputs, so separators can be typed before the next choice
+  const [choiceInputs, setChoiceInputs] = useState<Record<string, string>>({})
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  const editTemplate = (template: PromptTemplate | null) => {
+    setDraft(template ? { ...template } : emptyDraft)
+    setChoiceInputs(template
+      ? Object.fromEntries(template.variables.map(v => [v.name, v.choices.join(` ${CHOICE_SEPARATOR} `)]))
+      : {})
+  }
+
+  const updateText = (text: string) => {
+    setDraft(prev => ({ ...prev, text, variables: syncTemplateVariables(text, prev.variables) }))
+  }
+
+  const updateVariable = (name: string, changes: Partial<TemplateVariable>) => {
+    setDraft(prev => ({
+      ...prev,
+      variables: prev.variables.map(v => (v.name === name ? { ...v, ...changes } : v))
+    }))
+  }
+
+  const updateChoices = (name: string, value: string) => {
+    setChoiceInputs(prev => ({ ...prev, [name]: value }))
+    updateVariable(name, { choices: parseChoices(value) })
+  }
+
+  const saveDraft = () => {
+    if (!draft.name.trim() || !draft.text.trim()) return
+    const saved = savePromptTemplate(draft)
+    setDraft(saved)
+    toast({
+      title: "Template saved",
+      description: `"${saved.name}" has been saved to your library.`
+    })
+  }
+
+  const deleteDraft = () => {
+    if (!draft.id) return
+    deletePromptTemplate(draft.id)
+    editTemplate(null)
+    toast({
+      title: "Template deleted",
+      description: "The template has been removed from your library."
+    })
+  }
+
+  const exportLibrary = () => {
+    const blob = new Blob([exportPromptTemplates()], { type: 'application/json' })
+    downloadBlob(blob, 'prompt-templates.json')
+  }
+
+  const importLibrary = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const { imported, skipped } = importPromptTemplates(await file.text())
+      toast({
+        title: "Templates imported",
+        description: skipped > 0
+          ? `Imported ${imported} templates, skipped ${skipped} invalid entries.`
+          : `Imported ${imported} templates.`
+      })
+    } catch (error) {
+      console.error('Error importing prompt templates:', error)
+      toast({
+        title: "Import failed",
+        description: "The file is not a prompt template export.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="h-8" title="Template library">
+          <BookOpen className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookOpen className="w-5 h-5" />
+            Prompt Templates
+          </DialogTitle>
+          <DialogDescription>
+            Write {'{variable}'} in a template to fill it in later. Give variables choices to expand them in batches.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Library */}
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Button size="sm" className="flex-1" onClick={() => editTemplate(null)}>
+                <Plus className="w-4 h-4 mr-2" />
+                New
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} title="Import">
+                <Upload className="w-4 h-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={exportLibrary}
+                disabled={templates.length === 0}
+                title="Export"
+              >
+                <Download className="w-4 h-4" />
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={importLibrary}
+                className="hidden"
+              />
+            </div>
+            {templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No templates yet</p>
+            ) : (
+              <div className="space-y-1">
+                {templates.map((template) => (
+                  <button
+                    key={template.id}
+                    className={`w-full text-left rounded-md px-3 py-2 text-sm transition-colors hover:bg-muted ${draft.id === template.id ? 'bg-muted' : ''}`}
+                    onClick={() => editTemplate(template)}
+                  >
+                    <div className="font-medium truncate">{template.name}</div>
+                    <div className="text-xs text-muted-foreground truncate">{template.text}</div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Editor */}
+          <div className="md:col-span-2 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="templateName">Name</Label>
+              <Input
+                id="templateName"
+                placeholder="e.g. Product shot"
+                value={draft.name}
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="templateText">Template</Label>
+              <Textarea
+                id="templateText"
+                placeholder="product shot of {product} on {surface}, {lighting}"
+                value={draft.text}
+                onChange={(e) => updateText(e.target.value)}
+                rows={3}
+                className="resize-none"
+              />
+            </div>
+
+            {draft.variables.length > 0 && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>Variables</Label>
+                  <Badge variant="secondary">
+                    {countTemplateExpansions(draft)} combinations
+                  </Badge>
+                </div>
+                {draft.variables.map((variable) => (
+                  <div key={variable.name} className="grid grid-cols-3 gap-2 items-center">
+                    <code className="text-sm truncate">{`{${variable.name}}`}</code>
+                    <Input
+                      placeholder="Default"
+                      value={variable.defaultValue}
+                      onChange={(e) => updateVariable(variable.name, { defaultValue: e.target.value })}
+                    />
+                    <Input
+                      placeholder="Choices, e.g. marble | wood"
+                      value={choiceInputs[variable.name] ?? variable.choices.join(` ${CHOICE_SEPARATOR} `)}
+                      onChange={(e) => updateChoices(variable.name, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              {draft.id && (
+                <Button variant="outline" onClick={deleteDraft}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete
+                </Button>
+              )}
+              <Button onClick={saveDraft} disabled={!draft.name.trim() || !draft.text.trim()}>
+                <Save className="w-4 h-4 mr-2" />
+                Save Template
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { FileText, Layers } from 'lucide-react'
+import { useStore } from '../hooks/use-store'
+import { PromptTemplateLibrary } from './PromptTemplateLibrary'
+import {
+  countTemplateExpansions,
+  expandTemplate,
+  fillTemplate,
+  getDefaultTemplateValues,
+  promptTemplatesStore,
+  type PromptTemplate,
+  type TemplateExpansion
+} from '../lib/prompt-templates'
+
+interface PromptTemplatePanelProps {
+  /**
+   * `fill` asks for a value for every variable and gives one prompt;
+   * `expand` asks only for free-text variables and gives a prompt for every
+   * combination of the enumerated choices.
+   */
+  mode: 'fill' | 'expand'
+  /** Most prompts `expand` gives; the combinations after it are not built */
+  limit?: number
+  onUse: (expansions: TemplateExpansion[], template: PromptTemplate) => void
+}
+
+export function PromptTemplatePanel({ mode, limit, onUse }: PromptTemplatePanelProps) {
+  const templates = useStore(promptTemplatesStore)
+  const [templateId, setTemplateId] = useState('')
+  const [values, setValues] = useState<Record<string, string>>({})
+
+  // The selected template may have been deleted from the library meanwhile
+  const template = templates.find(t => t.id === templateId)
+  const fields = template?.variables.filter(v => mode === 'fill' || v.choices.length === 0) ?? []
+
+  const selectTemplate = (id: string) => {
+    const selected = templates.find(t => t.id === id)
+    setTemplateId(id)
+    setValues(selected ? getDefaultTemplateValues(selected) : {})
+  }
+
+  const applyTemplate = () => {
+    if (!template) return
+    onUse(
+      mode === 'fill' ? [{ values, prompt: fillTemplate(template, values) }] : expandTemplate(template, values, limit),
+      template
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label>Template</Label>
+        <div className="flex items-center gap-1">
+          <Select value={template ? templateId : ''} onValueChange={selectTemplate}>
+            <SelectTrigger className="h-8 w-[160px] text-xs">
+              <SelectValue placeholder={templates.length > 0 ? 'Choose a template' : 'No templates yet'} />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map((t) => (
+                <SelectItem key={t.id} value={t.id}>
+                  {t.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <PromptTemplateLibrary />
+        </div>
+      </div>
+
+      {template && (
+        <div className="rounded-lg border p-3 space-y-3">
+          <p className="text-xs text-muted-foreground">{template.text}</p>
+          {fields.map((variable) => (
+            <div key={variable.name} className="space-y-1">
+              <Label htmlFor={`template-${variable.name}`} className="text-xs">
+                {variable.name}
+              </Label>
+              {variable.choices.length > 0 ? (
+                <Select
+                  value={values[variable.name] ?? ''}
+                  onValueChange={(value) => setValues(prev => ({ ...prev, [variable.name]: value }))}
+                >
+                  <SelectTrigger id={`template-${variable.name}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {variable.choices.map((choice) => (
+                      <SelectItem key={choice} value={choice}>
+                        {choice}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  id={`template-${variable.name}`}
+                  placeholder={variable.defaultValue}
+                  value={values[variable.name] ?? ''}
+                  onChange={(e) => setValues(prev => ({ ...prev, [variable.name]: e.target.value }))}
+                />
+              )}
+            </div>
+          ))}
+          <Button size="sm" variant="secondary" className="w-full" onClick={applyTemplate}>
+            {mode === 'fill' ? (
+              <>
+                <FileText className="w-4 h-4 mr-2" />
+                Use Prompt
+              </>
+            ) : (
+              <>
+                <Layers className="w-4 h-4 mr-2" />
+                Expand to {countTemplateExpansions(template)} Prompts
+              </>
+            )}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
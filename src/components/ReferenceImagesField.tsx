@@ -0,0 +1,172 @@
+import { useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from './ui/dialog'
+import { Images, Upload, X } from 'lucide-react'
+import { useToast } from '../hooks/use-toast'
+import { useGallery } from '../hooks/use-gallery'
+import { useSettings } from '../hooks/use-settings'
+import {
+  MAX_REFERENCE_IMAGES,
+  referenceFromFile,
+  referenceFromUrl,
+  type ReferenceImage
+} from '../lib/reference-images'
+
+interface ReferenceImagesFieldProps {
+  references: ReferenceImage[]
+  onChange: (references: ReferenceImage[]) => void
+}
+
+/** Reference images from uploads, drops or the gallery, shown as removable thumbnails */
+export function ReferenceImagesField({ references, onChange }: ReferenceImagesFieldProps) {
+  const { settings } = useSettings()
+  const { images: galleryImages } = useGallery()
+  const [isPickerOpen, setIsPickerOpen] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+  const remaining = MAX_REFERENCE_IMAGES - references.length
+
+  const addFiles = (files: File[]) => {
+    const images = files.filter(file => file.type.startsWith('image/'))
+    const accepted = images.filter(file => file.size <= settings.uploads.maxSizeMb * 1024 * 1024)
+    const added = accepted.slice(0, remaining)
+    if (added.length > 0) {
+      onChange([...references, ...added.map(referenceFromFile)])
+    }
+
+    const notes = [
+      images.length < files.length && `${files.length - images.length} files are not images`,
+      accepted.length < images.length && `${images.length - accepted.length} images are larger than ${settings.uploads.maxSizeMb}MB`,
+      added.length < accepted.length && `only ${MAX_REFERENCE_IMAGES} references can be used at once`
+    ].filter(Boolean)
+    if (notes.length > 0) {
+      toast({
+        title: added.length > 0 ? "Some images were skipped" : "No images added",
+        description: `${notes.join('; ')}.`,
+        variant: "destructive"
+      })
+    }
+  }
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(event.target.files ?? []))
+    event.target.value = ''
+  }
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    addFiles(Array.from(event.dataTransfer.files))
+  }
+
+  const pickFromGallery = (url: string, name: string) => {
+    if (remaining <= 0) return
+    onChange([...references, referenceFromUrl(url, name)])
+    if (remaining === 1) setIsPickerOpen(false)
+  }
+
+  const removeReference = (id: string) => {
+    const removed = references.find(reference => reference.id === id)
+    if (removed?.file) URL.revokeObjectURL(removed.previewUrl)
+    onChange(references.filter(reference => reference.id !== id))
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label>Reference Images ({references.length}/{MAX_REFERENCE_IMAGES})</Label>
+        <div className="flex items-center gap-1">
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8"
+            title="Upload reference images"
+            disabled={remaining <= 0}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="w-4 h-4" />
+          </Button>
+          <Dialog open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm" variant="outline" className="h-8" title="Pick from gallery" disabled={remaining <= 0}>
+                <Images className="w-4 h-4" />
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <Images className="w-5 h-5" />
+                  Pick References
+                </DialogTitle>
+                <DialogDescription>
+                  Choose up to {remaining} more image{remaining === 1 ? '' : 's'} from your gallery.
+                </DialogDescription>
+              </DialogHeader>
+              {galleryImages.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">Your gallery is empty.</p>
+              ) : (
+                <div className="grid grid-cols-3 md:grid-cols-4 gap-2">
+                  {galleryImages.map((image) => (
+                    <button
+                      key={image.id}
+                      type="button"
+                      className="aspect-square rounded-lg overflow-hidden bg-muted hover:ring-2 hover:ring-primary disabled:opacity-50"
+                      title={image.prompt}
+                      disabled={remaining <= 0}
+                      onClick={() => pickFromGallery(image.url, image.filename ?? image.prompt)}
+                    >
+                      <img src={image.url} alt={image.prompt} className="w-full h-full object-cover" />
+                    </button>
+                  ))}
+                </div>
+              )}
+            </DialogContent>
+          </Dialog>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={handleFileSelect}
+          className="hidden"
+        />
+      </div>
+
+      <div
+        className="rounded-lg border border-dashed border-muted-foreground/25 p-2"
+        onDrop={handleDrop}
+        onDragOver={(event) => event.preventDefault()}
+      >
+        {references.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-3">
+            Drop images here to generate variations that keep their composition or subject
+          </p>
+        ) : (
+          <div className="grid grid-cols-4 gap-2">
+            {references.map((reference) => (
+              <div key={reference.id} className="group relative aspect-square rounded-md overflow-hidden bg-muted">
+                <img src={reference.previewUrl} alt={reference.name} title={reference.name} className="w-full h-full object-cover" />
+                <button
+                  type="button"
+                  className="absolute top-1 right-1 rounded-full bg-black/60 p-0.5 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Remove reference"
+                  onClick={() => removeReference(reference.id)}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,596 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Switch } from './ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import {
+  Settings,
+  Sparkles,
+  Layers,
+  Zap,
+  Scissors,
+  Download,
+  Server,
+  RotateCcw,
+  Ban,
+  Trash2
+} from 'lucide-react'
+import { useToast } from '../hooks/use-toast'
+import { useSettings } from '../hooks/use-settings'
+import { useStore } from '../hooks/use-store'
+import { formatFilename } from '../lib/download'
+import { deleteNegativePromptPreset, negativePromptPresetsStore } from '../lib/negative-prompts'
+import {
+  getImageProvider,
+  imageProviders,
+  setImageProvider,
+  type ImageQuality,
+  type ImageSize,
+  type ImageStyle
+} from '../lib/image-provider'
+import { getTextProvider, setTextProvider, textProviders } from '../lib/text-provider'
+import {
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_PROMPTS,
+  MAX_REQUESTS_PER_MINUTE,
+  MAX_UPLOAD_SIZE_MB,
+  type BackgroundMode,
+  type DownloadFormat,
+  type UpscaleScale
+} from '../lib/settings'
+
+export function SettingsPage() {
+  const { settings, updateSettings, resetSettings } = useSettings()
+  const negativePresets = useStore(negativePromptPresetsStore)
+  const [providerId, setProviderId] = useState(() => getImageProvider().id)
+  const [textProviderId, setTextProviderId] = useState(() => getTextProvider().id)
+  const { toast } = useToast()
+
+  const sizeOptions = [
+    { value: '1024x1024', label: 'Square (1024×1024)' },
+    { value: '1792x1024', label: 'Landscape (1792×1024)' },
+    { value: '1024x1792', label: 'Portrait (1024×1792)' }
+  ]
+
+  const qualityOptions = [
+    { value: 'auto', label: 'Auto' },
+    { value: 'low', label: 'Low' },
+    { value: 'medium', label: 'Medium' },
+    { value: 'high', label: 'High' }
+  ]
+
+  const styleOptions = [
+    { value: 'natural', label: 'Natural' },
+    { value: 'vivid', label: 'Vivid' }
+  ]
+
+  const scaleOptions = [
+    { value: '2x', label: '2x Upscale' },
+    { value: '4x', label: '4x Upscale' },
+    { value: '8x', label: '8x Upscale' }
+  ]
+
+  const modeOptions = [
+    { value: 'remove', label: 'Remove Background' },
+    { value: 'blur', label: 'Blur Background' },
+    { value: 'replace-white', label: 'White Background' },
+    { value: 'replace-black', label: 'Black Background' }
+  ]
+
+  const formatOptions = [
+    { value: 'png', label: 'PNG' },
+    { value: 'jpeg', label: 'JPEG' },
+    { value: 'webp', label: 'WebP' }
+  ]
+
+  const countOptions = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]
+
+  const previewFields = { type: 'generated', id: '1712345678901', prompt: 'A cozy cabin in the snowy woods', name: 'photo.jpg' }
+  const previewExtension = settings.downloads.format === 'jpeg' ? 'jpg' : settings.downloads.format
+  const filenamePreview = formatFilename(settings.downloads.filenamePattern, previewFields, previewExtension)
+  const archivePreview = formatFilename(settings.downloads.archivePattern, { ...previewFields, index: 1 }, previewExtension)
+
+  const changeProvider = (id: string) => {
+    setImageProvider(id)
+    setProviderId(id)
+  }
+
+  const changeTextProvider = (id: string) => {
+    setTextProvider(id)
+    setTextProviderId(id)
+  }
+
+  const handleReset = () => {
+    resetSettings()
+    toast({
+      title: "Settings reset",
+      description: "All preferences have been restored to their defaults."
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center space-y-2">
+        <h2 className="text-3xl font-bold flex items-center justify-center gap-2">
+          <Settings className="w-8 h-8 text-primary" />
+          Settings
+        </h2>
+        <p className="text-muted-foreground max-w-2xl mx-auto">
+          Choose the defaults each tool starts with. Changes are saved automatically.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Generator Defaults */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Sparkles className="w-5 h-5" />
+              Image Generator
+            </CardTitle>
+            <CardDescription>
+              Used when the generator opens without a shared link
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Size</Label>
+              <Select
+                value={settings.generator.size}
+                onValueChange={(value) => updateSettings({ generator: { size: value as ImageSize } })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sizeOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Quality</Label>
+              <Select
+                value={settings.generator.quality}
+                onValueChange={(value) => updateSettings({ generator: { quality: value as ImageQuality } })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {qualityOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Style</Label>
+              <Select
+                value={settings.generator.style}
+                onValueChange={(value) => updateSettings({ generator: { style: value as ImageStyle } })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {styleOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Count</Label>
+              <Select
+                value={settings.generator.count.toString()}
+                onValueChange={(value) => updateSettings({ generator: { count: parseInt(value) } })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {countOptions.map((num) => (
+                    <SelectItem key={num} value={num.toString()}>
+                      {num} image{num > 1 ? 's' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label>Variations</Label>
+              <Select
+                value={settings.variations.count.toString()}
+                onValueChange={(value) => updateSettings({ variations: { count: parseInt(value) } })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {countOptions.map((num) => (
+                    <SelectItem key={num} value={num.toString()}>
+                      {num} image{num > 1 ? 's' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Made by the Variations action on results and gallery images
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Batch Defaults */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="w-5 h-5" />
+              Batch Generator
+            </CardTitle>
+            <CardDescription>
+              Settings a new batch starts with
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Size</Label>
+              <Select
+                value={settings.batch.size}
+                onValueChange={(value) => updateSettings({ batch: { size: value as ImageSize } })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sizeOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Quality</Label>
+              <Select
+                value={settings.batch.quality}
+                onValueChange={(value) => updateSettings({ batch: { quality: value as ImageQuality } })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {qualityOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Style</Label>
+              <Select
+                value={settings.batch.style}
+                onValueChange={(value) => updateSettings({ batch: { style: value as ImageStyle } })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {styleOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Variation fields</Label>
+              <Select
+                value={settings.batch.count.toString()}
+                onValueChange={(value) => updateSettings({ batch: { count: parseInt(value) } })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {countOptions.map((num) => (
+                    <SelectItem key={num} value={num.toString()}>
+                      {num} variation{num > 1 ? 's' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="maxBatchPrompts">Prompt limit</Label>
+              <Input
+                id="maxBatchPrompts"
+                type="number"
+                min={1}
+                max={MAX_BATCH_PROMPTS}
+                key={settings.batch.maxPrompts}
+                defaultValue={settings.batch.maxPrompts}
+                onBlur={(e) => updateSettings({ batch: { maxPrompts: Number(e.target.value) } })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Most prompts a batch can expand to, between 1 and {MAX_BATCH_PROMPTS}
+              </p>
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="batchConcurrency">Concurrent images</Label>
+              <Input
+                id="batchConcurrency"
+                type="number"
+                min={1}
+                max={MAX_BATCH_CONCURRENCY}
+                key={settings.batch.concurrency}
+                defaultValue={settings.batch.concurrency}
+                onBlur={(e) => updateSettings({ batch: { concurrency: Number(e.target.value) } })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Images a batch generates at the same time, between 1 and {MAX_BATCH_CONCURRENCY}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Processing Defaults */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Zap className="w-5 h-5" />
+              Processing Tools
+            </CardTitle>
+            <CardDescription>
+              Defaults for the upscaler, background remover and uploads
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Zap className="w-4 h-4" />
+                Upscale factor
+              </Label>
+              <Select
+                value={settings.upscaler.scale}
+                onValueChange={(value) => updateSettings({ upscaler: { scale: value as UpscaleScale } })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {scaleOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Scissors className="w-4 h-4" />
+                Background mode
+              </Label>
+              <Select
+                value={settings.backgroundRemover.mode}
+                onValueChange={(value) => updateSettings({ backgroundRemover: { mode: value as BackgroundMode } })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {modeOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="maxUploadSize">Upload size limit (MB)</Label>
+              <Input
+                id="maxUploadSize"
+                type="number"
+                min={1}
+                max={MAX_UPLOAD_SIZE_MB}
+                key={settings.uploads.maxSizeMb}
+                defaultValue={settings.uploads.maxSizeMb}
+                onBlur={(e) => updateSettings({ uploads: { maxSizeMb: Number(e.target.value) } })}
+              />
+              <p className="text-xs text-muted-foreground">Between 1 and {MAX_UPLOAD_SIZE_MB}MB</p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Downloads & Gallery */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Download className="w-5 h-5" />
+              Downloads & Gallery
+            </CardTitle>
+            <CardDescription>
+              How images are saved to your device and your gallery
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="filenamePattern">Filename pattern</Label>
+              <Input
+                id="filenamePattern"
+                value={settings.downloads.filenamePattern}
+                onChange={(e) => updateSettings({ downloads: { filenamePattern: e.target.value } })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Use {'{type}'}, {'{name}'}, {'{prompt}'}, {'{id}'}, {'{date}'} and {'{time}'}. Preview: {filenamePreview}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="archivePattern">ZIP filename pattern</Label>
+              <Input
+                id="archivePattern"
+                value={settings.downloads.archivePattern}
+                onChange={(e) => updateSettings({ downloads: { archivePattern: e.target.value } })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Names images inside ZIP archives; {'{index}'} numbers them. Preview: {archivePreview}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select
+                value={settings.downloads.format}
+                onValueChange={(value) => updateSettings({ downloads: { format: value as DownloadFormat } })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {formatOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="autoSave">Save results to gallery</Label>
+                <p className="text-xs text-muted-foreground">
+                  Add every generated or processed image to your gallery automatically
+                </p>
+              </div>
+              <Switch
+                id="autoSave"
+                checked={settings.autoSaveToGallery}
+                onCheckedChange={(checked) => updateSettings({ autoSaveToGallery: checked })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Provider */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Server className="w-5 h-5" />
+              Image Provider
+            </CardTitle>
+            <CardDescription>
+              The service that generates and edits images
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Select value={providerId} onValueChange={changeProvider}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {imageProviders.map((provider) => (
+                  <SelectItem key={provider.id} value={provider.id}>
+                    {provider.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="space-y-2">
+              <Label htmlFor="textProvider">Text model</Label>
+              <Select value={textProviderId} onValueChange={changeTextProvider}>
+                <SelectTrigger id="textProvider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {textProviders.map((provider) => (
+                    <SelectItem key={provider.id} value={provider.id}>
+                      {provider.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Rewrites prompts and describes images. The offline one only adds stock detail.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="requestsPerMinute">Requests per minute</Label>
+              <Input
+                id="requestsPerMinute"
+                type="number"
+                min={1}
+                max={MAX_REQUESTS_PER_MINUTE}
+                key={settings.requests.perMinute}
+                defaultValue={settings.requests.perMinute}
+                onBlur={(e) => updateSettings({ requests: { perMinute: Number(e.target.value) } })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Shared by all tools. Requests wait for the budget, and back off when the service reports a rate limit.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Negative Prompt Presets */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Ban className="w-5 h-5" />
+              Negative Prompt Presets
+            </CardTitle>
+            <CardDescription>
+              Presets you saved from the generator tools
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {negativePresets.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No saved presets yet. Save one from the negative prompt field in the generator.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {negativePresets.map((preset) => (
+                  <div key={preset.id} className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">{preset.name}</p>
+                      <p className="text-xs text-muted-foreground line-clamp-2">{preset.text}</p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => deleteNegativePromptPreset(preset.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={handleReset}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset to defaults
+        </Button>
+      </div>
+    </div>
+  )
+}
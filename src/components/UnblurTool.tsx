@@ -1,9 +1,8 @@
 import { useState, useRef } from 'react'
-import { blink } from '../blink/client'
+import { useLocation } from 'react-router-dom'
 import { Button } from './ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Label } from './ui/label'
-import { Progress } from './ui/progress'
 import { Badge } from './ui/badge'
 import { 
   Upload, 
@@ -16,6 +15,16 @@ import {
   EyeOff
 } from 'lucide-react'
 import { useToast } from '../hooks/use-toast'
+import { useJobs } from '../hooks/use-jobs'
+import { JobProgress } from './JobProgress'
+import { useStore } from '../hooks/use-store'
+import { useSettings } from '../hooks/use-settings'
+import { addGalleryImages } from '../lib/gallery'
+import { isCancellation } from '../lib/jobs'
+import { processImage as runProcessImage } from '../lib/process-image'
+import type { ToolLocationState } from '../lib/tools'
+import { saveImage } from '../lib/download'
+import { createStore } from '../lib/store'
 
 interface ProcessedImage {
   id: string
@@ -25,20 +34,25 @@ interface ProcessedImage {
   createdAt: Date
 }
 
+const processedImagesStore = createStore<ProcessedImage[]>([])
+
 export function UnblurTool() {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null)
-  const [previewUrl, setPreviewUrl] = useState<string>('')
-  const [isProcessing, setIsProcessing] = useState(false)
-  const [progress, setProgress] = useState(0)
-  const [processedImages, setProcessedImages] = useState<ProcessedImage[]>([])
+  const location = useLocation()
+  const { settings } = useSettings()
+  // An image handed over from the dashboard or a Reproduce action starts out selected
+  const handoff = location.state as ToolLocationState | null
+  const handoffFile = handoff?.file
+  const [selectedFile, setSelectedFile] = useState<File | null>(handoffFile ?? null)
+  const [previewUrl, setPreviewUrl] = useState<string>(() => handoffFile ? URL.createObjectURL(handoffFile) : '')
+  const processedImages = useStore(processedImagesStore)
+  const { activeJobs } = useJobs('unblur')
+  const isProcessing = activeJobs.length > 0
+  const currentJob = activeJobs.find(job => job.status === 'running') ?? activeJobs[0]
   const [showComparison, setShowComparison] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const { toast } = useToast()
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
-
+  const selectFile = (file: File) => {
     if (!file.type.startsWith('image/')) {
       toast({
         title: "Invalid file type",
@@ -48,10 +62,10 @@ export function UnblurTool() {
       return
     }
 
-    if (file.size > 10 * 1024 * 1024) { // 10MB limit
+    if (file.size > settings.uploads.maxSizeMb * 1024 * 1024) {
       toast({
         title: "File too large",
-        description: "Please select an image smaller than 10MB.",
+        description: `Please select an image smaller than ${settings.uploads.maxSizeMb}MB.`,
         variant: "destructive"
       })
       return
@@ -62,14 +76,15 @@ export function UnblurTool() {
     setPreviewUrl(url)
   }
 
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) selectFile(file)
+  }
+
   const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault()
     const file = event.dataTransfer.files[0]
-    if (file && file.type.startsWith('image/')) {
-      setSelectedFile(file)
-      const url = URL.createObjectURL(file)
-      setPreviewUrl(url)
-    }
+    if (file) selectFile(file)
   }
 
   const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
@@ -79,31 +94,16 @@ export function UnblurTool() {
   const processImage = async () => {
     if (!selectedFile) return
 
-    setIsProcessing(true)
-    setProgress(0)
-
     try {
-      // Upload original image to storage first
-      const { publicUrl: originalUrl } = await blink.storage.upload(
-        selectedFile,
-        `unblur/originals/${selectedFile.name}`,
-        { upsert: true }
-      )
-
-      setProgress(30)
-
-      // Use AI to enhance the image
-      const { data } = await blink.ai.modifyImage({
-        images: [originalUrl],
-        prompt: 'Enhance this image by removing blur, increasing sharpness, and improving clarity. Make it crystal clear and detailed.',
-        quality: 'high',
-        n: 1
+      // Upload the original, then use AI to enhance it
+      const prompt = 'Enhance this image by removing blur, increasing sharpness, and improving clarity. Make it crystal clear and detailed.'
+      const { originalUrl, resultUrl: enhancedUrl, blob, provenance } = await runProcessImage({
+        tool: 'unblur',
+        file: selectedFile,
+        folder: 'unblur',
+        prompt
       })
 
-      setProgress(90)
-
-      const enhancedUrl = data[0].url
-
       const newProcessedImage: ProcessedImage = {
         id: `${Date.now()}`,
         originalUrl,
@@ -112,8 +112,19 @@ export function UnblurTool() {
         createdAt: new Date()
       }
 
-      setProcessedImages(prev => [newProcessedImage, ...prev])
-      setProgress(100)
+      processedImagesStore.set(prev => [newProcessedImage, ...prev])
+      if (settings.autoSaveToGallery) {
+        addGalleryImages([{
+          id: newProcessedImage.id,
+          url: newProcessedImage.enhancedUrl,
+          prompt,
+          type: 'unblurred',
+          filename: newProcessedImage.filename,
+          createdAt: newProcessedImage.createdAt,
+          provenance,
+          blob
+        }])
+      }
 
       toast({
         title: "Image enhanced successfully!",
@@ -128,30 +139,25 @@ export function UnblurTool() {
       }
 
     } catch (error) {
+      if (isCancellation(error)) {
+        toast({
+          title: "Enhancement cancelled",
+          description: "The image enhancement was cancelled."
+        })
+        return
+      }
       console.error('Error processing image:', error)
       toast({
         title: "Enhancement failed",
         description: "Failed to enhance image. Please try again.",
         variant: "destructive"
       })
-    } finally {
-      setIsProcessing(false)
-      setProgress(0)
     }
   }
 
   const handleDownload = async (imageUrl: string, filename: string, type: 'original' | 'enhanced') => {
     try {
-      const response = await fetch(imageUrl)
-      const blob = await response.blob()
-      const url = window.URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = `${type}-${filename}`
-      document.body.appendChild(a)
-      a.click()
-      window.URL.revokeObjectURL(url)
-      document.body.removeChild(a)
+      await saveImage(imageUrl, { type, name: filename })
       
       toast({
         title: "Download started",
@@ -222,21 +228,13 @@ export function UnblurTool() {
                     <ImageIcon className="w-12 h-12 text-muted-foreground mx-auto" />
                     <div>
                       <p className="text-sm font-medium">Click to upload or drag and drop</p>
-                      <p className="text-xs text-muted-foreground">PNG, JPG, JPEG, WebP up to 10MB</p>
+                      <p className="text-xs text-muted-foreground">PNG, JPG, JPEG, WebP up to {settings.uploads.maxSizeMb}MB</p>
                     </div>
                   </div>
                 )}
               </div>
 
-              {isProcessing && (
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between text-sm">
-                    <span>Enhancing image...</span>
-                    <span>{progress}%</span>
-                  </div>
-                  <Progress value={progress} className="w-full" />
-                </div>
-              )}
+              {currentJob && <JobProgress job={currentJob} title="Enhancing image" />}
 
               <Button 
                 onClick={processImage} 
@@ -1,9 +1,8 @@
 import { useState, useRef } from 'react'
-import { blink } from '../blink/client'
+import { useLocation } from 'react-router-dom'
 import { Button } from './ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Label } from './ui/label'
-import { Progress } from './ui/progress'
 import { Badge } from './ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { 
@@ -17,6 +16,16 @@ import {
   EyeOff
 } from 'lucide-react'
 import { useToast } from '../hooks/use-toast'
+import { useJobs } from '../hooks/use-jobs'
+import { JobProgress } from './JobProgress'
+import { useStore } from '../hooks/use-store'
+import { useSettings } from '../hooks/use-settings'
+import { addGalleryImages } from '../lib/gallery'
+import { isCancellation } from '../lib/jobs'
+import { processImage as runProcessImage } from '../lib/process-image'
+import type { ToolLocationState } from '../lib/tools'
+import { saveImage } from '../lib/download'
+import { createStore } from '../lib/store'
 
 interface UpscaledImage {
   id: string
@@ -29,13 +38,21 @@ interface UpscaledImage {
   createdAt: Date
 }
 
+const upscaledImagesStore = createStore<UpscaledImage[]>([])
+
 export function UpscalerTool() {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null)
-  const [previewUrl, setPreviewUrl] = useState<string>('')
-  const [scale, setScale] = useState('2x')
-  const [isProcessing, setIsProcessing] = useState(false)
-  const [progress, setProgress] = useState(0)
-  const [upscaledImages, setUpscaledImages] = useState<UpscaledImage[]>([])
+  const location = useLocation()
+  const { settings } = useSettings()
+  // An image handed over from the dashboard or a Reproduce action starts out selected
+  const handoff = location.state as ToolLocationState | null
+  const handoffFile = handoff?.file
+  const [selectedFile, setSelectedFile] = useState<File | null>(handoffFile ?? null)
+  const [previewUrl, setPreviewUrl] = useState<string>(() => handoffFile ? URL.createObjectURL(handoffFile) : '')
+  const [scale, setScale] = useState<string>(handoff?.reproduce?.params.scale ?? settings.upscaler.scale)
+  const upscaledImages = useStore(upscaledImagesStore)
+  const { activeJobs } = useJobs('upscaler')
+  const isProcessing = activeJobs.length > 0
+  const currentJob = activeJobs.find(job => job.status === 'running') ?? activeJobs[0]
   const [showComparison, setShowComparison] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const { toast } = useToast()
@@ -46,10 +63,7 @@ export function UpscalerTool() {
     { value: '8x', label: '8x Upscale', description: 'Maximum enhancement' }
   ]
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
-
+  const selectFile = (file: File) => {
     if (!file.type.startsWith('image/')) {
       toast({
         title: "Invalid file type",
@@ -59,10 +73,10 @@ export function UpscalerTool() {
       return
     }
 
-    if (file.size > 10 * 1024 * 1024) { // 10MB limit
+    if (file.size > settings.uploads.maxSizeMb * 1024 * 1024) {
       toast({
         title: "File too large",
-        description: "Please select an image smaller than 10MB.",
+        description: `Please select an image smaller than ${settings.uploads.maxSizeMb}MB.`,
         variant: "destructive"
       })
       return
@@ -73,14 +87,15 @@ export function UpscalerTool() {
     setPreviewUrl(url)
   }
 
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) selectFile(file)
+  }
+
   const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault()
     const file = event.dataTransfer.files[0]
-    if (file && file.type.startsWith('image/')) {
-      setSelectedFile(file)
-      const url = URL.createObjectURL(file)
-      setPreviewUrl(url)
-    }
+    if (file) selectFile(file)
   }
 
   const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
@@ -100,41 +115,27 @@ export function UpscalerTool() {
   const upscaleImage = async () => {
     if (!selectedFile) return
 
-    setIsProcessing(true)
-    setProgress(0)
-
     try {
       // Get original dimensions
       const originalDimensions = await getImageDimensions(selectedFile)
       const originalSize = `${originalDimensions.width}×${originalDimensions.height}`
 
-      // Upload original image to storage first
-      const { publicUrl: originalUrl } = await blink.storage.upload(
-        selectedFile,
-        `upscaler/originals/${selectedFile.name}`,
-        { upsert: true }
-      )
-
-      setProgress(30)
-
       // Calculate target dimensions based on scale
       const scaleMultiplier = parseInt(scale.replace('x', ''))
       const targetWidth = originalDimensions.width * scaleMultiplier
       const targetHeight = originalDimensions.height * scaleMultiplier
       const upscaledSize = `${targetWidth}×${targetHeight}`
 
-      // Use AI to upscale the image
-      const { data } = await blink.ai.modifyImage({
-        images: [originalUrl],
-        prompt: `Upscale this image to ${scaleMultiplier}x resolution with enhanced detail, sharpness, and clarity. Maintain the original style and content while adding fine details and improving quality.`,
-        quality: 'high',
-        n: 1
+      // Upload the original, then use AI to upscale it
+      const prompt = `Upscale this image to ${scaleMultiplier}x resolution with enhanced detail, sharpness, and clarity. Maintain the original style and content while adding fine details and improving quality.`
+      const { originalUrl, resultUrl: upscaledUrl, blob, provenance } = await runProcessImage({
+        tool: 'upscaler',
+        file: selectedFile,
+        folder: 'upscaler',
+        prompt,
+        params: { scale }
       })
 
-      setProgress(90)
-
-      const upscaledUrl = data[0].url
-
       const newUpscaledImage: UpscaledImage = {
         id: `${Date.now()}`,
         originalUrl,
@@ -146,8 +147,21 @@ export function UpscalerTool() {
         createdAt: new Date()
       }
 
-      setUpscaledImages(prev => [newUpscaledImage, ...prev])
-      setProgress(100)
+      upscaledImagesStore.set(prev => [newUpscaledImage, ...prev])
+      if (settings.autoSaveToGallery) {
+        addGalleryImages([{
+          id: newUpscaledImage.id,
+          url: newUpscaledImage.upscaledUrl,
+          prompt,
+          type: 'upscaled',
+          size: upscaledSize,
+          scale,
+          filename: newUpscaledImage.filename,
+          createdAt: newUpscaledImage.createdAt,
+          provenance,
+          blob
+        }])
+      }
 
       toast({
         title: "Image upscaled successfully!",
@@ -162,30 +176,28 @@ export function UpscalerTool() {
       }
 
     } catch (error) {
+      if (isCancellation(error)) {
+        toast({
+          title: "Upscaling cancelled",
+          description: "The image upscaling was cancelled."
+        })
+        return
+      }
       console.error('Error upscaling image:', error)
       toast({
         title: "Upscaling failed",
         description: "Failed to upscale image. Please try again.",
         variant: "destructive"
       })
-    } finally {
-      setIsProcessing(false)
-      setProgress(0)
     }
   }
 
   const handleDownload = async (imageUrl: string, filename: string, type: 'original' | 'upscaled', scale?: string) => {
     try {
-      const response = await fetch(imageUrl)
-      const blob = await response.blob()
-      const url = window.URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = type === 'upscaled' ? `${scale}-upscaled-${filename}` : `original-${filename}`
-      document.body.appendChild(a)
-      a.click()
-      window.URL.revokeObjectURL(url)
-      document.body.removeChild(a)
+      await saveImage(imageUrl, {
+        type: type === 'upscaled' ? `${scale}-upscaled` : 'original',
+        name: filename
+      })
       
       toast({
         title: "Download started",
@@ -256,7 +268,7 @@ export function UpscalerTool() {
                     <ImageIcon className="w-12 h-12 text-muted-foreground mx-auto" />
                     <div>
                       <p className="text-sm font-medium">Click to upload or drag and drop</p>
-                      <p className="text-xs text-muted-foreground">PNG, JPG, JPEG, WebP up to 10MB</p>
+                      <p className="text-xs text-muted-foreground">PNG, JPG, JPEG, WebP up to {settings.uploads.maxSizeMb}MB</p>
                     </div>
                   </div>
                 )}
@@ -281,15 +293,7 @@ export function UpscalerTool() {
                 </Select>
               </div>
 
-              {isProcessing && (
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between text-sm">
-                    <span>Upscaling image...</span>
-                    <span>{progress}%</span>
-                  </div>
-                  <Progress value={progress} className="w-full" />
-                </div>
-              )}
+              {currentJob && <JobProgress job={currentJob} title="Upscaling image" />}
 
               <Button 
                 onClick={upscaleImage} 
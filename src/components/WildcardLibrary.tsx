@@ -0,0 +1,203 @@
+import { useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from './ui/dialog'
+import { Braces, Plus, Trash2, Upload, Save } from 'lucide-react'
+import { useToast } from '../hooks/use-toast'
+import { useStore } from '../hooks/use-store'
+import {
+  WILDCARD_NAME,
+  deleteWildcard,
+  getWildcardName,
+  parseWildcardValues,
+  saveWildcard,
+  wildcardsStore,
+  type Wildcard
+} from '../lib/wildcards'
+
+interface WildcardDraft {
+  // Name of the wildcard being edited, so renaming it replaces the old one
+  original?: string
+  name: string
+  text: string
+}
+
+const emptyDraft: WildcardDraft = { name: '', text: '' }
+
+export function WildcardLibrary() {
+  const wildcards = useStore(wildcardsStore)
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<WildcardDraft>(emptyDraft)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  const name = draft.name.trim()
+  const values = parseWildcardValues(draft.text)
+  const canSave = WILDCARD_NAME.test(name) && values.length > 0
+
+  const editWildcard = (wildcard: Wildcard | null) => {
+    setDraft(wildcard
+      ? { original: wildcard.name, name: wildcard.name, text: wildcard.values.join('\n') }
+      : emptyDraft)
+  }
+
+  const saveDraft = () => {
+    if (!canSave) return
+    saveWildcard({ name, values })
+    if (draft.original && draft.original !== name) {
+      deleteWildcard(draft.original)
+    }
+    setDraft({ original: name, name, text: values.join('\n') })
+    toast({
+      title: "Wildcard saved",
+      description: `Use __${name}__ in a prompt to pick one of its ${values.length} values.`
+    })
+  }
+
+  const deleteDraft = () => {
+    if (!draft.original) return
+    deleteWildcard(draft.original)
+    editWildcard(null)
+    toast({
+      title: "Wildcard deleted",
+      description: "The wildcard has been removed."
+    })
+  }
+
+  // Each text file becomes a wildcard named after it, with one value per line
+  const importFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    event.target.value = ''
+    if (files.length === 0) return
+
+    let imported = 0
+    for (const file of files) {
+      const wildcard = { name: getWildcardName(file.name), values: parseWildcardValues(await file.text()) }
+      if (!WILDCARD_NAME.test(wildcard.name) || wildcard.values.length === 0) continue
+      saveWildcard(wildcard)
+      imported++
+    }
+
+    toast({
+      title: imported > 0 ? "Wildcards imported" : "Import failed",
+      description: imported < files.length
+        ? `Imported ${imported} of ${files.length} files. Files need a usable name and at least one value.`
+        : `Imported ${imported} wildcards.`,
+      variant: imported > 0 ? "default" : "destructive"
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="h-8" title="Wildcards">
+          <Braces className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Braces className="w-5 h-5" />
+            Wildcards
+          </DialogTitle>
+          <DialogDescription>
+            Write __name__ in a prompt to pick from a wildcard's values. Values can use {'{a|b}'} and other wildcards too.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Library */}
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Button size="sm" className="flex-1" onClick={() => editWildcard(null)}>
+                <Plus className="w-4 h-4 mr-2" />
+                New
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} title="Import .txt files">
+                <Upload className="w-4 h-4" />
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="text/plain,.txt"
+                multiple
+                onChange={importFiles}
+                className="hidden"
+              />
+            </div>
+            {wildcards.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No wildcards yet</p>
+            ) : (
+              <div className="space-y-1">
+                {wildcards.map((wildcard) => (
+                  <button
+                    key={wildcard.name}
+                    className={`w-full text-left rounded-md px-3 py-2 text-sm transition-colors hover:bg-muted ${draft.original === wildcard.name ? 'bg-muted' : ''}`}
+                    onClick={() => editWildcard(wildcard)}
+                  >
+                    <div className="font-medium truncate">__{wildcard.name}__</div>
+                    <div className="text-xs text-muted-foreground">{wildcard.values.length} values</div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Editor */}
+          <div className="md:col-span-2 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="wildcardName">Name</Label>
+              <Input
+                id="wildcardName"
+                placeholder="e.g. colors or styles/painting"
+                value={draft.name}
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              />
+              {name && !WILDCARD_NAME.test(name) && (
+                <p className="text-xs text-destructive">
+                  Use letters, numbers, - and _, with / to group wildcards.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="wildcardValues">Values</Label>
+                <span className="text-xs text-muted-foreground">One per line, # for comments</span>
+              </div>
+              <Textarea
+                id="wildcardValues"
+                placeholder={'crimson\nteal\n{pale|deep} gold'}
+                value={draft.text}
+                onChange={(e) => setDraft(prev => ({ ...prev, text: e.target.value }))}
+                rows={10}
+                className="font-mono text-sm"
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              {draft.original && (
+                <Button variant="outline" onClick={deleteDraft}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete
+                </Button>
+              )}
+              <Button onClick={saveDraft} disabled={!canSave}>
+                <Save className="w-4 h-4 mr-2" />
+                Save Wildcard
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
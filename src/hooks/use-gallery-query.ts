@@ -0,0 +1,46 @@
+import * as React from "react"
+
+import {
+  queryGalleryImages,
+  subscribeToGallery,
+  type GalleryImage,
+  type GalleryQuery,
+} from "@/lib/gallery"
+
+/** Gallery images matching a query, read again whenever the gallery changes */
+function useGalleryQuery({ type, favoritesOnly, since, until, limit }: GalleryQuery) {
+  const [images, setImages] = React.useState<GalleryImage[]>([])
+  const [isLoading, setIsLoading] = React.useState(true)
+  const sinceTime = since?.getTime()
+  const untilTime = until?.getTime()
+
+  React.useEffect(() => {
+    // Only the latest query's results are kept when changes come in quickly
+    let latest = 0
+    let isActive = true
+    const run = () => {
+      const request = ++latest
+      queryGalleryImages({
+        type,
+        favoritesOnly,
+        since: sinceTime === undefined ? undefined : new Date(sinceTime),
+        until: untilTime === undefined ? undefined : new Date(untilTime),
+        limit
+      }).then((results) => {
+        if (!isActive || request !== latest) return
+        setImages(results)
+        setIsLoading(false)
+      })
+    }
+    const unsubscribe = subscribeToGallery(run)
+    run()
+    return () => {
+      isActive = false
+      unsubscribe()
+    }
+  }, [type, favoritesOnly, sinceTime, untilTime, limit])
+
+  return { images, isLoading }
+}
+
+export { useGalleryQuery }
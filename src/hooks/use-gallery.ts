@@ -0,0 +1,44 @@
+import * as React from "react"
+
+import {
+  addGalleryImages,
+  getGalleryImages,
+  isGalleryLoaded,
+  loadGalleryImages,
+  removeGalleryImage,
+  subscribeToGallery,
+  updateGalleryImage,
+  type GalleryImage,
+} from "@/lib/gallery"
+
+function useGallery() {
+  const [images, setImages] = React.useState<GalleryImage[]>(getGalleryImages)
+  const [isLoading, setIsLoading] = React.useState(() => !isGalleryLoaded())
+
+  React.useEffect(() => {
+    const unsubscribe = subscribeToGallery(setImages)
+    loadGalleryImages().then(() => {
+      setImages(getGalleryImages())
+      setIsLoading(false)
+    })
+    return unsubscribe
+  }, [])
+
+  const toggleFavorite = React.useCallback((id: string) => {
+    const image = getGalleryImages().find((img) => img.id === id)
+    if (image) {
+      updateGalleryImage(id, { isFavorite: !image.isFavorite })
+    }
+  }, [])
+
+  return {
+    images,
+    isLoading,
+    addImages: addGalleryImages,
+    updateImage: updateGalleryImage,
+    removeImage: removeGalleryImage,
+    toggleFavorite,
+  }
+}
+
+export { useGallery }
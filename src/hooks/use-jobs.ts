@@ -0,0 +1,17 @@
+import { cancelJob, clearFinishedJobs, isJobActive, jobsStore } from "@/lib/jobs"
+import type { ToolId } from "@/lib/tools"
+import { useStore } from "./use-store"
+
+function useJobs(tool?: ToolId) {
+  const allJobs = useStore(jobsStore)
+  const jobs = tool ? allJobs.filter((job) => job.tool === tool) : allJobs
+
+  return {
+    jobs,
+    activeJobs: jobs.filter(isJobActive),
+    cancelJob,
+    clearFinishedJobs,
+  }
+}
+
+export { useJobs }
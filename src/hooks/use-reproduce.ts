@@ -0,0 +1,35 @@
+import { useCallback } from "react"
+import { useNavigate } from "react-router-dom"
+import type { Provenance } from "@/lib/provenance"
+import { getReproduceTarget } from "@/lib/reproduce"
+import { useToast } from "./use-toast"
+
+/** Returns a function that reopens a result's originating tool with its settings */
+function useReproduce() {
+  const navigate = useNavigate()
+  const { toast } = useToast()
+
+  return useCallback(async (provenance: Provenance) => {
+    try {
+      const target = await getReproduceTarget(provenance)
+      if (!target) {
+        toast({
+          title: "Cannot reproduce",
+          description: "The tool that created this image is no longer available.",
+          variant: "destructive",
+        })
+        return
+      }
+      navigate(target.path, { state: target.state })
+    } catch (error) {
+      console.error("Error reproducing image:", error)
+      toast({
+        title: "Cannot reproduce",
+        description: "The source image could not be loaded.",
+        variant: "destructive",
+      })
+    }
+  }, [navigate, toast])
+}
+
+export { useReproduce }
@@ -0,0 +1,14 @@
+import { resetSettings, settingsStore, updateSettings } from "@/lib/settings"
+import { useStore } from "./use-store"
+
+function useSettings() {
+  const settings = useStore(settingsStore)
+
+  return {
+    settings,
+    updateSettings,
+    resetSettings,
+  }
+}
+
+export { useSettings }
@@ -0,0 +1,9 @@
+import * as React from "react"
+
+import type { Store } from "@/lib/store"
+
+function useStore<T>(store: Store<T>): T {
+  return React.useSyncExternalStore(store.subscribe, store.get)
+}
+
+export { useStore }
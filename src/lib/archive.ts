@@ -0,0 +1,93 @@
+import { createZip, type ZipEntry } from './zip'
+import { downloadBlob, formatFilename, prepareImage, withExtension } from './download'
+import { getSettings } from './settings'
+import type { Provenance } from './provenance'
+
+export interface ArchiveImage {
+  id: string
+  url: string
+  /** Loads the image bytes, e.g. from the gallery cache */
+  load: () => Promise<Blob>
+  type: string
+  prompt: string
+  negativePrompt?: string
+  size?: string
+  quality?: string
+  style?: string
+  createdAt: Date
+  /** Name picked for the image, e.g. in an imported prompt sheet; the archive pattern names the rest */
+  filename?: string
+  provenance?: Provenance
+  tags?: string[]
+}
+
+export interface ArchiveResult {
+  added: number
+  /** Images that could not be loaded; metadata.json lists them too */
+  failed: number
+}
+
+const METADATA_FILE = 'metadata.json'
+
+// Two images may format to the same name, so later ones get a number
+function uniqueName(name: string, used: Set<string>) {
+  let candidate = name
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = name.replace(/(\.[^.]+)?$/, `-${n}$1`)
+  }
+  used.add(candidate.toLowerCase())
+  return candidate
+}
+
+/**
+ * Packs images into one ZIP download, named from the archive filename
+ * pattern and converted to the download format, along with a metadata.json
+ * that records each file's prompt and parameters.
+ */
+export async function downloadArchive(
+  name: string,
+  images: ArchiveImage[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ArchiveResult> {
+  const { archivePattern } = getSettings().downloads
+  const entries: ZipEntry[] = []
+  const files: Record<string, unknown>[] = []
+  const missing: Array<{ id: string; url: string; error: string }> = []
+  const used = new Set([METADATA_FILE])
+
+  for (const [index, image] of images.entries()) {
+    try {
+      const { blob, extension } = await prepareImage(await image.load())
+      const fields = { type: image.type, id: image.id, prompt: image.prompt, createdAt: image.createdAt, index: index + 1 }
+      const file = uniqueName(
+        image.filename ? withExtension(image.filename, extension) : formatFilename(archivePattern, fields, extension),
+        used
+      )
+      entries.push({ name: file, data: blob, modifiedAt: image.createdAt })
+      files.push({
+        file,
+        id: image.id,
+        type: image.type,
+        prompt: image.prompt,
+        negativePrompt: image.negativePrompt,
+        size: image.size,
+        quality: image.quality,
+        style: image.style,
+        tags: image.tags,
+        createdAt: image.createdAt.toISOString(),
+        url: image.url,
+        provenance: image.provenance
+      })
+    } catch (error) {
+      console.error(`Error adding ${image.id} to the archive:`, error)
+      missing.push({ id: image.id, url: image.url, error: error instanceof Error ? error.message : String(error) })
+    }
+    onProgress?.(index + 1, images.length)
+  }
+
+  const metadata = { exportedAt: new Date().toISOString(), files, missing }
+  entries.push({ name: METADATA_FILE, data: new Blob([JSON.stringify(metadata, null, 2)], { type: 'application/json' }) })
+
+  downloadBlob(await createZip(entries), `${name}.zip`)
+  return { added: files.length, failed: missing.length }
+}
@@ -0,0 +1,309 @@
+import { z } from 'zod'
+import { provenanceSchema } from './provenance'
+
+// Bump DB_VERSION and add a step to `upgrades` whenever the object store
+// layout changes. Bump RECORD_VERSION and extend `migrateRecord` whenever the
+// shape of a stored gallery record changes.
+// Every user gets a database of their own, named `<prefix>:<user id>`, so
+// images never cross accounts. The unscoped database of earlier versions is
+// left alone; everything in it was synced to its owner's account.
+const DB_NAME_PREFIX = 'ai-image-suite'
+const DB_VERSION = 1
+export const RECORD_VERSION = 2
+
+const IMAGES_STORE = 'images'
+const BLOBS_STORE = 'blobs'
+const LEGACY_STORAGE_KEY = 'gallery-images'
+
+export const galleryImageTypeSchema = z.enum(['generated', 'unblurred', 'upscaled', 'background-removed', 'batch'])
+
+const galleryRecordV1Schema = z.object({
+  schemaVersion: z.literal(1),
+  id: z.string(),
+  url: z.string(),
+  prompt: z.string(),
+  type: galleryImageTypeSchema,
+  size: z.string().optional(),
+  quality: z.string().optional(),
+  style: z.string().optional(),
+  scale: z.string().optional(),
+  mode: z.string().optional(),
+  filename: z.string().optional(),
+  createdAt: z.number(),
+  favorite: z.union([z.literal(0), z.literal(1)])
+})
+
+export const galleryRecordSchema = z.object({
+  schemaVersion: z.literal(RECORD_VERSION),
+  id: z.string(),
+  url: z.string(),
+  prompt: z.string(),
+  negativePrompt: z.string().optional(),
+  type: galleryImageTypeSchema,
+  size: z.string().optional(),
+  quality: z.string().optional(),
+  style: z.string().optional(),
+  scale: z.string().optional(),
+  mode: z.string().optional(),
+  filename: z.string().optional(),
+  provenance: provenanceSchema.optional(),
+  // Stored as epoch milliseconds and 0/1 so both can back an index
+  createdAt: z.number(),
+  favorite: z.union([z.literal(0), z.literal(1)]),
+  // Per-field timestamps let sync resolve conflicts with last-write-wins
+  favoriteUpdatedAt: z.number(),
+  tags: z.array(z.string()),
+  tagsUpdatedAt: z.number(),
+  // Deleted records are kept as tombstones until the deletion has been synced
+  deletedAt: z.number().optional(),
+  updatedAt: z.number()
+})
+
+export type GalleryRecord = z.infer<typeof galleryRecordSchema>
+
+// Shape written to localStorage['gallery-images'] before the asset store existed
+const legacyImageSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  prompt: z.string(),
+  type: galleryImageTypeSchema,
+  size: z.string().optional(),
+  quality: z.string().optional(),
+  style: z.string().optional(),
+  scale: z.string().optional(),
+  mode: z.string().optional(),
+  filename: z.string().optional(),
+  createdAt: z.coerce.date(),
+  isFavorite: z.boolean().default(false)
+})
+
+export interface GalleryQuery {
+  type?: GalleryRecord['type']
+  favoritesOnly?: boolean
+  since?: Date
+  until?: Date
+  limit?: number
+}
+
+const upgrades: Array<(db: IDBDatabase) => void> = [
+  // v1: gallery records indexed by type, date and favorite, plus cached image blobs
+  (db) => {
+    const images = db.createObjectStore(IMAGES_STORE, { keyPath: 'id' })
+    images.createIndex('type', 'type')
+    images.createIndex('createdAt', 'createdAt')
+    images.createIndex('favorite', 'favorite')
+    images.createIndex('type_createdAt', ['type', 'createdAt'])
+    images.createIndex('favorite_createdAt', ['favorite', 'createdAt'])
+    db.createObjectStore(BLOBS_STORE)
+  }
+]
+
+let dbName: string | null = null
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+/**
+ * Points the store at the database of the given user, or at none when
+ * signed out. Writes still in flight finish in the database they started in.
+ */
+export function setAssetDbUser(userId: string | null) {
+  const name = userId ? `${DB_NAME_PREFIX}:${userId}` : null
+  if (name === dbName) return
+  dbPromise?.then((db) => db.close()).catch(() => {})
+  dbName = name
+  dbPromise = null
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const name = dbName
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'))
+        return
+      }
+      if (!name) {
+        reject(new Error('No user is signed in'))
+        return
+      }
+      const request = indexedDB.open(name, DB_VERSION)
+      request.onupgradeneeded = (event) => {
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          upgrades[version](request.result)
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).then(async (db) => {
+      await migrateLegacyStorage(db)
+      return db
+    })
+    const opened = dbPromise
+    opened.catch(() => {
+      if (dbPromise === opened) dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+function migrateRecord(raw: unknown): GalleryRecord | null {
+  const result = galleryRecordSchema.safeParse(raw)
+  if (result.success) return result.data
+
+  // v1 -> v2: add tags and the sync timestamps
+  const v1 = galleryRecordV1Schema.safeParse(raw)
+  if (v1.success) {
+    return {
+      ...v1.data,
+      schemaVersion: RECORD_VERSION,
+      favoriteUpdatedAt: v1.data.createdAt,
+      tags: [],
+      tagsUpdatedAt: v1.data.createdAt,
+      updatedAt: v1.data.createdAt
+    }
+  }
+
+  console.error('Skipping invalid gallery record:', result.error)
+  return null
+}
+
+async function migrateLegacyStorage(db: IDBDatabase) {
+  let saved: string | null
+  try {
+    saved = localStorage.getItem(LEGACY_STORAGE_KEY)
+  } catch {
+    return
+  }
+  if (!saved) return
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(saved)
+  } catch (error) {
+    console.error('Discarding unreadable legacy gallery data:', error)
+    localStorage.removeItem(LEGACY_STORAGE_KEY)
+    return
+  }
+
+  const records: GalleryRecord[] = []
+  for (const item of Array.isArray(parsed) ? parsed : []) {
+    const result = legacyImageSchema.safeParse(item)
+    if (!result.success) {
+      console.error('Skipping invalid legacy gallery image:', result.error)
+      continue
+    }
+    const { isFavorite, createdAt, ...rest } = result.data
+    records.push({
+      ...rest,
+      schemaVersion: RECORD_VERSION,
+      createdAt: createdAt.getTime(),
+      favorite: isFavorite ? 1 : 0,
+      favoriteUpdatedAt: createdAt.getTime(),
+      tags: [],
+      tagsUpdatedAt: createdAt.getTime(),
+      updatedAt: createdAt.getTime()
+    })
+  }
+
+  const tx = db.transaction(IMAGES_STORE, 'readwrite')
+  const store = tx.objectStore(IMAGES_STORE)
+  records.forEach((record) => store.put(record))
+  await transactionDone(tx)
+  localStorage.removeItem(LEGACY_STORAGE_KEY)
+}
+
+export async function getAllRecords(): Promise<GalleryRecord[]> {
+  const db = await openDb()
+  const rows = await promisify(db.transaction(IMAGES_STORE).objectStore(IMAGES_STORE).getAll())
+  return rows.map(migrateRecord).filter((record): record is GalleryRecord => record !== null)
+}
+
+/**
+ * Records matching the query, newest first, read through the index that
+ * fits it so only as many records as the limit asks for are read.
+ * Tombstones are skipped.
+ */
+export async function queryRecords(query: GalleryQuery = {}): Promise<GalleryRecord[]> {
+  const db = await openDb()
+  const store = db.transaction(IMAGES_STORE).objectStore(IMAGES_STORE)
+  const lower = query.since?.getTime() ?? 0
+  const upper = query.until?.getTime() ?? Number.MAX_SAFE_INTEGER
+  // The compound indexes keep each type, and the favorites, ordered by date
+  const [index, range] = query.type
+    ? [store.index('type_createdAt'), IDBKeyRange.bound([query.type, lower], [query.type, upper])]
+    : query.favoritesOnly
+    ? [store.index('favorite_createdAt'), IDBKeyRange.bound([1, lower], [1, upper])]
+    : [store.index('createdAt'), IDBKeyRange.bound(lower, upper)]
+
+  const records: GalleryRecord[] = []
+  await new Promise<void>((resolve, reject) => {
+    const request = index.openCursor(range, 'prev')
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) {
+        resolve()
+        return
+      }
+      const record = migrateRecord(cursor.value)
+      if (record && record.deletedAt === undefined && (!query.favoritesOnly || record.favorite === 1)) {
+        records.push(record)
+      }
+      if (query.limit && records.length >= query.limit) {
+        resolve()
+        return
+      }
+      cursor.continue()
+    }
+    request.onerror = () => reject(request.error)
+  })
+  return records
+}
+
+export async function putRecords(records: GalleryRecord[]) {
+  const db = await openDb()
+  const tx = db.transaction(IMAGES_STORE, 'readwrite')
+  const store = tx.objectStore(IMAGES_STORE)
+  records.forEach((record) => store.put(galleryRecordSchema.parse(record)))
+  await transactionDone(tx)
+}
+
+export async function deleteRecord(id: string) {
+  const db = await openDb()
+  const tx = db.transaction([IMAGES_STORE, BLOBS_STORE], 'readwrite')
+  tx.objectStore(IMAGES_STORE).delete(id)
+  tx.objectStore(BLOBS_STORE).delete(id)
+  await transactionDone(tx)
+}
+
+export async function deleteBlob(id: string) {
+  const db = await openDb()
+  const tx = db.transaction(BLOBS_STORE, 'readwrite')
+  tx.objectStore(BLOBS_STORE).delete(id)
+  await transactionDone(tx)
+}
+
+export async function getBlob(id: string): Promise<Blob | undefined> {
+  const db = await openDb()
+  return promisify(db.transaction(BLOBS_STORE).objectStore(BLOBS_STORE).get(id))
+}
+
+export async function putBlob(id: string, blob: Blob) {
+  const db = await openDb()
+  const tx = db.transaction(BLOBS_STORE, 'readwrite')
+  tx.objectStore(BLOBS_STORE).put(blob, id)
+  await transactionDone(tx)
+}
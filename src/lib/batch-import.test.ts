@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from 'vitest'
+import { parseBatchImport } from './batch-import'
+
+// The option lists come from the image provider module, whose Blink client
+// would otherwise start signing in as soon as it is imported
+vi.mock('../blink/client', () => ({ blink: {} }))
+
+describe('parseBatchImport', () => {
+  it('reads CSV rows by header name, in any column order and case', () => {
+    const { rows, errors } = parseBatchImport('sheet.csv', 'Size,PROMPT,filename\n1792x1024,a cat,cat-01\n,a dog,')
+
+    expect(errors).toEqual([])
+    expect(rows).toEqual([
+      { prompt: 'a cat', size: '1792x1024', quality: undefined, style: undefined, filename: 'cat-01', row: 2 },
+      { prompt: 'a dog', size: undefined, quality: undefined, style: undefined, filename: undefined, row: 3 }
+    ])
+  })
+
+  it('reports invalid rows with their spreadsheet row and keeps the rest', () => {
+    const { rows, errors } = parseBatchImport('sheet.csv', 'prompt,quality\na cat,high\n\n"  ",low\na dog,ultra')
+
+    expect(rows.map((row) => row.prompt)).toEqual(['a cat'])
+    expect(errors).toEqual([
+      { row: 4, message: 'prompt: Prompt is empty' },
+      { row: 5, message: expect.stringMatching(/^quality: /) }
+    ])
+  })
+
+  it('needs a prompt column in CSV files', () => {
+    expect(() => parseBatchImport('sheet.csv', 'text,size\na cat,1024x1024')).toThrow('"prompt" column')
+  })
+
+  it('reads a JSON array or an object with rows, numbering rows from 1', () => {
+    const array = parseBatchImport('sheet.json', '[{"prompt":"a cat","style":"vivid"},{"prompt":""}]')
+    const object = parseBatchImport('rows.txt', '{"rows":[{"prompt":"a cat"}]}')
+
+    expect(array.rows).toEqual([{ prompt: 'a cat', style: 'vivid', row: 1 }])
+    expect(array.errors).toEqual([{ row: 2, message: 'prompt: Prompt is empty' }])
+    expect(object.rows).toEqual([{ prompt: 'a cat', row: 1 }])
+  })
+
+  it('rejects JSON that holds no rows', () => {
+    expect(() => parseBatchImport('sheet.json', '{"prompts":[]}')).toThrow('"rows" array')
+  })
+})
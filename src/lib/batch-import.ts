@@ -0,0 +1,89 @@
+import { z } from 'zod'
+import { parseCsvRecords } from './csv'
+import { imageQualities, imageSizes, imageStyles } from './image-provider'
+
+// Blank cells leave the setting to the batch form
+const optionalCell = <T extends z.ZodType>(schema: T) =>
+  z.preprocess((value) => (typeof value === 'string' && value.trim() === '' ? undefined : value), schema.optional())
+
+const batchRowSchema = z.object({
+  prompt: z.string().trim().min(1, 'Prompt is empty'),
+  size: optionalCell(z.enum(imageSizes)),
+  quality: optionalCell(z.enum(imageQualities)),
+  style: optionalCell(z.enum(imageStyles)),
+  filename: optionalCell(z.string().trim())
+})
+
+/** One row of an imported prompt sheet */
+export type BatchRow = z.infer<typeof batchRowSchema> & {
+  /** 1-based row in the sheet, see `SheetEntry` */
+  row: number
+}
+
+export interface BatchRowError {
+  /** 1-based row in the sheet, see `SheetEntry` */
+  row: number
+  message: string
+}
+
+export interface BatchImport {
+  rows: BatchRow[]
+  errors: BatchRowError[]
+}
+
+const COLUMNS = ['prompt', 'size', 'quality', 'style', 'filename'] as const
+
+// `row` is where the entry is in the file, so results can be matched back to
+// it: the spreadsheet row of a CSV record, counting the header and empty
+// lines, or the 1-based position in a JSON array
+interface SheetEntry {
+  row: number
+  value: unknown
+}
+
+function parseRows(entries: SheetEntry[]): BatchImport {
+  const rows: BatchRow[] = []
+  const errors: BatchRowError[] = []
+  entries.forEach(({ row, value }) => {
+    const result = batchRowSchema.safeParse(value)
+    if (result.success) {
+      rows.push({ ...result.data, row })
+    } else {
+      const issue = result.error.issues[0]
+      errors.push({ row, message: `${issue.path.join('.') || 'row'}: ${issue.message}` })
+    }
+  })
+  return { rows, errors }
+}
+
+function readCsvEntries(text: string): SheetEntry[] {
+  const [header, ...records] = parseCsvRecords(text)
+  const columns = header?.fields.map((name) => name.trim().toLowerCase()) ?? []
+  if (!columns.includes('prompt')) {
+    throw new Error('The CSV needs a header row with a "prompt" column')
+  }
+  return records.map(({ row, fields }) => ({
+    row,
+    value: Object.fromEntries(COLUMNS.map((column) => [column, fields[columns.indexOf(column)] ?? '']))
+  }))
+}
+
+function readJsonEntries(text: string): SheetEntry[] {
+  const data: unknown = JSON.parse(text)
+  const entries = Array.isArray(data) ? data : (data as { rows?: unknown } | null)?.rows
+  if (!Array.isArray(entries)) {
+    throw new Error('The JSON needs to be an array of rows or an object with a "rows" array')
+  }
+  return entries.map((value, index) => ({ row: index + 1, value }))
+}
+
+/**
+ * Reads a prompt sheet: a CSV with a header row, or a JSON array of row
+ * objects. Columns are prompt, size, quality, style and filename; only
+ * prompt is required. Rows that do not validate are reported in `errors`
+ * instead of failing the import. Throws when the file cannot be read at all.
+ */
+export function parseBatchImport(filename: string, text: string): BatchImport {
+  const isJson = /\.json$/i.test(filename) || /^\s*[[{]/.test(text)
+  return parseRows(isJson ? readJsonEntries(text) : readCsvEntries(text))
+}
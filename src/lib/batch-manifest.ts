@@ -0,0 +1,63 @@
+import { formatCsv } from './csv'
+import { getBatchItemImage, type BatchItemStatus, type BatchJob } from './batches'
+
+export type ManifestStatus = BatchItemStatus | 'skipped'
+
+/** What became of one item of a batch */
+export interface ManifestEntry {
+  /** Row of the imported sheet the item came from, else its 1-based position in the batch */
+  row: number
+  prompt: string
+  filename: string
+  size: string
+  quality: string
+  style: string
+  status: ManifestStatus
+  url: string
+  error: string
+}
+
+const MANIFEST_COLUMNS: Array<keyof ManifestEntry> = [
+  'row', 'prompt', 'filename', 'size', 'quality', 'style', 'status', 'url', 'error'
+]
+
+/**
+ * One entry per item of the batch, in order. Items that are still queued
+ * once the batch has stopped, e.g. after cancelling, are skipped.
+ */
+export function getBatchManifest(job: BatchJob): ManifestEntry[] {
+  return job.items.map((item, index) => {
+    const image = getBatchItemImage(job, index)
+    const status: ManifestStatus = item.status === 'queued' && job.status !== 'generating'
+      ? 'skipped'
+      : item.status
+    return {
+      row: item.row ?? index + 1,
+      prompt: item.prompt,
+      filename: item.filename ?? '',
+      size: item.size,
+      quality: item.quality,
+      style: item.style,
+      status,
+      url: image?.url ?? '',
+      error: item.error ?? ''
+    }
+  })
+}
+
+export function formatManifestCsv(entries: ManifestEntry[]): string {
+  return formatCsv([
+    MANIFEST_COLUMNS,
+    ...entries.map((entry) => MANIFEST_COLUMNS.map((column) => String(entry[column])))
+  ])
+}
+
+export function formatManifestJson(job: BatchJob, entries: ManifestEntry[]): string {
+  return JSON.stringify({
+    batch: job.id,
+    source: job.importedFrom ?? null,
+    createdAt: job.createdAt.toISOString(),
+    status: job.status,
+    items: entries
+  }, null, 2)
+}
@@ -0,0 +1,302 @@
+import { z } from 'zod'
+import { createStore } from './store'
+import { provenanceSchema, type Provenance } from './provenance'
+import type { BatchRow } from './batch-import'
+import { imageQualities, imageSizes, imageStyles, pickOption } from './image-provider'
+import { promptGridSchema, type PromptGrid } from './prompt-grid'
+import { getSettings } from './settings'
+
+const batchImageSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  prompt: z.string(),
+  variation: z.number(),
+  createdAt: z.coerce.date(),
+  provenance: provenanceSchema
+})
+
+const batchItemStatusSchema = z.enum(['queued', 'running', 'succeeded', 'failed'])
+
+// One image a batch sets out to generate
+const batchItemSchema = z.object({
+  prompt: z.string(),
+  // The variation the prompt was expanded from, kept for provenance
+  variation: z.string().optional(),
+  size: z.string(),
+  quality: z.string(),
+  style: z.string(),
+  // Name to save the result under, from an imported row
+  filename: z.string().optional(),
+  // Row of the imported sheet the item came from, see ./batch-import
+  row: z.number().optional(),
+  status: batchItemStatusSchema,
+  // Why the last attempt failed
+  error: z.string().optional()
+})
+
+const batchJobSchema = z.object({
+  id: z.string(),
+  basePrompt: z.string(),
+  negativePrompt: z.string().optional(),
+  variations: z.array(z.string()),
+  // Name of the prompt sheet the items were imported from
+  importedFrom: z.string().optional(),
+  // Axes of an XY grid comparison, whose cells are the items row by row
+  grid: promptGridSchema.optional(),
+  // What the base prompt and variations expanded to, or the imported rows;
+  // `BatchImage.variation` is a 1-based index into it
+  items: z.array(batchItemSchema),
+  images: z.array(batchImageSchema),
+  size: z.string(),
+  quality: z.string(),
+  style: z.string(),
+  createdAt: z.coerce.date(),
+  // `failed` means the run stopped on an error and `cancelled` that it was
+  // stopped by hand; failed items alone give `completed-with-errors`.
+  // `interrupted` batches were still running when the page was closed.
+  status: z.enum(['generating', 'completed', 'completed-with-errors', 'failed', 'cancelled', 'interrupted'])
+})
+
+export type BatchImage = z.infer<typeof batchImageSchema>
+export type BatchItemStatus = z.infer<typeof batchItemStatusSchema>
+export type BatchItem = z.infer<typeof batchItemSchema>
+export type BatchJob = z.infer<typeof batchJobSchema>
+
+const STORAGE_KEY_PREFIX = 'batch-jobs'
+// Older batches are dropped so the list stays within the storage quota
+const MAX_STORED_JOBS = 20
+
+// Key of the signed-in user's batches; nothing is saved while signed out
+let storageKey: string | null = null
+
+// Batches that were running when the page went away cannot continue on
+// their own; they are marked so they can be resumed
+function readBatchJobs(key: string): BatchJob[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(key) || '[]')
+    if (!Array.isArray(stored)) return []
+    return stored.flatMap((entry) => {
+      const result = batchJobSchema.safeParse(entry)
+      if (!result.success) return []
+      const job = result.data
+      return [job.status === 'generating'
+        ? {
+            ...job,
+            status: 'interrupted' as const,
+            items: job.items.map((item) => (item.status === 'running' ? { ...item, status: 'queued' as const } : item))
+          }
+        : job]
+    })
+  } catch {
+    return []
+  }
+}
+
+// Images the provider returned inline as data URLs would use up the quota
+// on their own, so they are left out and their items count as not generated.
+// Saved results are still in the gallery, which keeps their bytes.
+function toStoredJob(job: BatchJob): BatchJob {
+  const inline = job.images.filter((image) => image.url.startsWith('data:'))
+  if (inline.length === 0) return job
+  const dropped = new Set(inline.map((image) => image.variation - 1))
+  return {
+    ...job,
+    images: job.images.filter((image) => !inline.includes(image)),
+    items: job.items.map((item, index) => (dropped.has(index) ? { ...item, status: 'queued' as const } : item))
+  }
+}
+
+/** Batches, newest first. They are saved locally per user, so they survive a reload. */
+export const batchJobsStore = createStore<BatchJob[]>([])
+
+// Every change is written through, so a reload mid-batch keeps what finished.
+// When the quota is still exceeded, older batches are dropped until it fits.
+batchJobsStore.subscribe((jobs) => {
+  if (!storageKey) return
+  const stored = jobs.slice(0, MAX_STORED_JOBS).map(toStoredJob)
+  for (let count = stored.length; ; count--) {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(stored.slice(0, count)))
+      return
+    } catch (error) {
+      if (count === 0) {
+        console.error('Error saving batch jobs:', error)
+        return
+      }
+    }
+  }
+})
+
+/**
+ * Loads a user's batches into the store. Returns a function that clears
+ * it again, e.g. when the user signs out.
+ */
+export function openBatchJobs(userId: string) {
+  storageKey = `${STORAGE_KEY_PREFIX}:${userId}`
+  batchJobsStore.set(readBatchJobs(storageKey))
+  return () => {
+    storageKey = null
+    batchJobsStore.set([])
+  }
+}
+
+export function getBatchJob(id: string) {
+  return batchJobsStore.get().find((job) => job.id === id)
+}
+
+export function updateBatchJob(id: string, update: (job: BatchJob) => Partial<BatchJob>) {
+  batchJobsStore.set((prev) => prev.map((job) => (job.id === id ? { ...job, ...update(job) } : job)))
+}
+
+export function updateBatchItem(id: string, index: number, changes: Partial<BatchItem>) {
+  updateBatchJob(id, (job) => ({
+    items: job.items.map((item, i) => (i === index ? { ...item, ...changes } : item))
+  }))
+}
+
+/** Adds an image to a batch, keeping images in item order */
+export function addBatchImage(id: string, image: BatchImage) {
+  updateBatchJob(id, (job) => ({
+    images: [...job.images.filter((i) => i.variation !== image.variation), image]
+      .sort((a, b) => a.variation - b.variation)
+  }))
+}
+
+/** Status of a batch whose run went through all of its items */
+export function getFinishedBatchStatus(job: BatchJob): BatchJob['status'] {
+  return job.items.some((item) => item.status === 'failed') ? 'completed-with-errors' : 'completed'
+}
+
+/** Indexes of the items whose last attempt failed */
+export function getFailedItemIndexes(job: BatchJob) {
+  return job.items.flatMap((item, index) => (item.status === 'failed' ? [index] : []))
+}
+
+/**
+ * The prompt sent for one variation. The base prompt is optional, so
+ * variations can also be complete prompts, e.g. expanded from a template.
+ */
+export function composeBatchPrompt(basePrompt: string, variation: string) {
+  return [basePrompt.trim(), variation.trim()].filter(Boolean).join(', ')
+}
+
+/** The dynamic prompts a batch expands: each variation added to the base prompt, or the base prompt alone */
+export function getBatchSources(basePrompt: string, variations: string[]): string[] {
+  const filled = variations.filter((variation) => variation.trim())
+  if (filled.length === 0) return basePrompt.trim() ? [basePrompt.trim()] : []
+  return filled.map((variation) => composeBatchPrompt(basePrompt, variation))
+}
+
+/** Short description of a batch for headings and job labels */
+export function getBatchTitle(job: Pick<BatchJob, 'basePrompt' | 'variations' | 'importedFrom'>) {
+  return job.importedFrom || job.basePrompt.trim() || job.variations[0] || 'Untitled batch'
+}
+
+/** The image an item of a batch produced, if any */
+export function getBatchItemImage(job: BatchJob, index: number) {
+  return job.images.find((image) => image.variation === index + 1)
+}
+
+/** Items of a batch that did not produce an image */
+export function getUnfinishedItems(job: BatchJob) {
+  return job.items.filter((item) => item.status !== 'succeeded')
+}
+
+/** Indexes of the items that did not produce an image, which resuming a batch generates */
+export function getUnfinishedItemIndexes(job: BatchJob) {
+  return job.items.flatMap((item, index) => (item.status !== 'succeeded' ? [index] : []))
+}
+
+/** Unfinished items of a batch that is not running, which it can pick up again in place */
+export function getResumableItemIndexes(job: BatchJob) {
+  return job.status === 'generating' ? [] : getUnfinishedItemIndexes(job)
+}
+
+/** What the batch form is filled in with */
+export interface BatchSetup {
+  basePrompt: string
+  negativePrompt: string
+  variations: string[]
+  /** Imported rows, which are generated as they are instead of the variations */
+  imported?: { filename: string; rows: BatchRow[] }
+  /** Axes to compare the base prompt across, which replace the variations */
+  grid?: PromptGrid
+  size: string
+  quality: string
+  style: string
+}
+
+// Batches saved before items kept their sheet row fall back to the item's
+// position. Settings a sheet could not hold are left to the batch form.
+function toBatchRow({ prompt, size, quality, style, filename, row }: BatchItem, index: number): BatchRow {
+  return {
+    prompt,
+    size: pickOption(imageSizes, size),
+    quality: pickOption(imageQualities, quality),
+    style: pickOption(imageStyles, style),
+    filename,
+    row: row ?? index + 1
+  }
+}
+
+/**
+ * Setup to continue a batch with: its unfinished items as they were
+ * expanded or imported, or the original setup once every item produced an
+ * image. A grid only makes sense whole, so grids always get their original
+ * setup.
+ */
+export function getBatchSetup(job: BatchJob): BatchSetup {
+  if (job.grid) {
+    return {
+      basePrompt: job.basePrompt,
+      negativePrompt: job.negativePrompt ?? '',
+      variations: job.variations,
+      grid: job.grid,
+      size: job.size,
+      quality: job.quality,
+      style: job.style
+    }
+  }
+  const unfinished = getUnfinishedItems(job)
+  const remaining = unfinished.length > 0 ? unfinished : null
+  return {
+    basePrompt: remaining ? '' : job.basePrompt,
+    negativePrompt: job.negativePrompt ?? '',
+    variations: remaining && !job.importedFrom ? remaining.map((item) => item.prompt) : job.variations,
+    imported: job.importedFrom
+      ? { filename: job.importedFrom, rows: (remaining ?? job.items).map((item) => toBatchRow(item, job.items.indexOf(item))) }
+      : undefined,
+    size: job.size,
+    quality: job.quality,
+    style: job.style
+  }
+}
+
+/**
+ * Setup that reproduces a single batch image. It uses the exact prompt, as
+ * the original variation may expand differently the next time.
+ */
+export function getBatchSetupFromProvenance(provenance: Provenance): BatchSetup {
+  const defaults = getSettings().batch
+  return {
+    basePrompt: '',
+    negativePrompt: provenance.negativePrompt ?? '',
+    variations: [provenance.prompt],
+    size: provenance.params.size ?? defaults.size,
+    quality: provenance.params.quality ?? defaults.quality,
+    style: provenance.params.style ?? defaults.style
+  }
+}
+
+/** Setup that starts a batch from a prompt, e.g. one written from an image */
+export function getBatchSetupFromPrompt(prompt: string): BatchSetup {
+  const defaults = getSettings().batch
+  return {
+    basePrompt: prompt,
+    negativePrompt: '',
+    variations: Array<string>(defaults.count).fill(''),
+    size: defaults.size,
+    quality: defaults.quality,
+    style: defaults.style
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { formatCsv, parseCsv, parseCsvRecords } from './csv'
+
+describe('parseCsv', () => {
+  it('splits records and fields', () => {
+    expect(parseCsv('prompt,size\r\na cat,1024x1024\na dog,')).toEqual([
+      ['prompt', 'size'],
+      ['a cat', '1024x1024'],
+      ['a dog', '']
+    ])
+  })
+
+  it('reads quoted fields with commas, doubled quotes and line breaks', () => {
+    expect(parseCsv('"a cat, sitting","say ""hi""","two\nlines"')).toEqual([
+      ['a cat, sitting', 'say "hi"', 'two\nlines']
+    ])
+  })
+
+  it('skips empty lines and a leading byte order mark', () => {
+    expect(parseCsv('﻿prompt\n\na cat\n')).toEqual([['prompt'], ['a cat']])
+  })
+})
+
+describe('parseCsvRecords', () => {
+  it('numbers records by spreadsheet row, counting empty lines but not breaks inside a cell', () => {
+    const records = parseCsvRecords('prompt\n\na cat\n"two\nlines"\na dog')
+
+    expect(records.map((record) => record.row)).toEqual([1, 3, 4, 5])
+  })
+})
+
+describe('formatCsv', () => {
+  it('quotes only the fields that need it', () => {
+    expect(formatCsv([['prompt', 'note'], ['a cat, sitting', 'say "hi"'], ['plain', 'two\nlines']])).toBe(
+      'prompt,note\r\n"a cat, sitting","say ""hi"""\r\nplain,"two\nlines"'
+    )
+  })
+
+  it('formats records that parse back the same', () => {
+    const records = [['a, b', '"quoted"', ''], ['line\r\nbreak', 'x', 'y']]
+
+    expect(parseCsv(formatCsv(records))).toEqual(records)
+  })
+})
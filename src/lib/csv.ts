@@ -0,0 +1,67 @@
+// Minimal RFC 4180 CSV: fields separated by commas, optionally quoted with ",
+// and quotes inside quoted fields doubled. Both \n and \r\n end a record.
+
+export interface CsvRecord {
+  /** 1-based row a spreadsheet shows the record in, counting empty lines */
+  row: number
+  fields: string[]
+}
+
+/** Parses CSV text into records of fields. Empty lines are skipped. */
+export function parseCsv(text: string): string[][] {
+  return parseCsvRecords(text).map((record) => record.fields)
+}
+
+/** Like `parseCsv`, with the row each record is on */
+export function parseCsvRecords(text: string): CsvRecord[] {
+  const records: CsvRecord[] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+  // Line breaks inside quoted fields stay in the same row
+  let row = 1
+
+  const endRecord = () => {
+    record.push(field)
+    if (record.length > 1 || record[0] !== '') records.push({ row, fields: record })
+    record = []
+    field = ''
+  }
+
+  // A byte order mark from spreadsheet exports would end up in the first header
+  const source = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n') {
+      endRecord()
+      row++
+    } else if (char !== '\r') {
+      field += char
+    }
+  }
+  if (field || record.length > 0) endRecord()
+  return records
+}
+
+function formatField(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/** Formats records as CSV text that spreadsheets open as-is */
+export function formatCsv(records: string[][]): string {
+  return records.map((record) => record.map(formatField).join(',')).join('\r\n')
+}
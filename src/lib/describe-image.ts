@@ -0,0 +1,91 @@
+import { getImageProvider } from './image-provider'
+import { enqueueJob } from './jobs'
+import { latencyKey } from './latency'
+import { getTextProvider } from './text-provider'
+
+export interface ImageDescription {
+  /** Where the uploaded image can be reached */
+  imageUrl: string
+  prompt: string
+  /** Short style descriptors, e.g. `watercolor` or `soft light` */
+  tags: string[]
+}
+
+// Offered as a vocabulary so tags stay consistent between images
+const STYLE_TAGS = [
+  'photograph', 'illustration', '3d render', 'watercolor', 'oil painting', 'anime', 'pixel art', 'line art',
+  'cinematic lighting', 'soft light', 'high contrast', 'pastel colors', 'vibrant colors', 'monochrome',
+  'minimalist', 'highly detailed'
+]
+
+const SYSTEM = [
+  'You describe images as prompts for an image generation model.',
+  'Cover the subject, setting, composition, lighting, color palette, medium and style, in enough detail to recreate the image.'
+].join(' ')
+
+const REQUEST = [
+  'Write a prompt that would recreate this image.',
+  'Answer with exactly two lines and nothing else:',
+  'Prompt: <one paragraph, at most 80 words>',
+  'Tags: <3 to 6 comma-separated style tags>',
+  `Hints: ${STYLE_TAGS.join(', ')}`
+].join('\n')
+
+function readLine(text: string, label: string) {
+  const match = text.match(new RegExp(`^\\W*${label}\\W*:(.*)$`, 'im'))
+  return match ? match[1].trim() : ''
+}
+
+// Models do not always keep to the format, so an unlabelled answer is taken as the prompt
+function parseDescription(text: string) {
+  const prompt = readLine(text, 'Prompt') || text.trim().split(/\n\s*\n/)[0].replace(/\s+/g, ' ').trim()
+  const tags = readLine(text, 'Tags')
+    .split(',')
+    .map((tag) => tag.trim().replace(/^#/, '').toLowerCase())
+    .filter(Boolean)
+  return { prompt: prompt.replace(/^["'“](.*)["'”]$/, '$1'), tags: Array.from(new Set(tags)) }
+}
+
+/** A description as one prompt, with the tags that are not in it already added */
+export function getDescriptionPrompt({ prompt, tags }: Pick<ImageDescription, 'prompt' | 'tags'>) {
+  const missing = tags.filter((tag) => !prompt.toLowerCase().includes(tag))
+  return [prompt, ...missing].filter(Boolean).join(', ')
+}
+
+/**
+ * Uploads an image and asks the text model to describe it as a prompt, as
+ * two queued jobs so both show up in the jobs drawer and can be cancelled.
+ */
+export async function describeImage(file: File): Promise<ImageDescription> {
+  const { url: imageUrl } = await enqueueJob({
+    kind: 'upload',
+    tool: 'describe',
+    label: `Upload: ${file.name}`,
+    run: ({ setProgress }) => getImageProvider().upload(
+      file,
+      `describe/originals/${crypto.randomUUID()}-${file.name}`,
+      { upsert: true, onProgress: setProgress }
+    )
+  }).promise
+
+  return enqueueJob({
+    kind: 'describe',
+    tool: 'describe',
+    label: `Describe: ${file.name}`,
+    run: async ({ signal, setPhase }) => {
+      setPhase('generating', { label: 'Describing image', latencyKey: latencyKey('describe') })
+      const text = await getTextProvider().generateText({
+        system: SYSTEM,
+        prompt: REQUEST,
+        images: [imageUrl],
+        temperature: 0.3,
+        signal
+      })
+      const { prompt, tags } = parseDescription(text)
+      if (!prompt) {
+        throw new Error('The text model returned no description')
+      }
+      return { imageUrl, prompt, tags }
+    }
+  }).promise
+}
@@ -0,0 +1,160 @@
+import { getSettings } from './settings'
+
+export interface FetchProgressOptions {
+  signal?: AbortSignal
+  onProgress?: (percent: number) => void
+}
+
+/**
+ * Fetches a URL into a Blob, reporting progress from the response stream
+ * when the server sends a Content-Length.
+ */
+export async function fetchWithProgress(url: string, { signal, onProgress }: FetchProgressOptions = {}): Promise<Blob> {
+  const response = await fetch(url, { signal })
+  if (!response.ok) {
+    throw new Error(`Failed to download image: ${response.status}`)
+  }
+
+  const total = Number(response.headers.get('Content-Length')) || 0
+  if (!response.body || !total) {
+    const blob = await response.blob()
+    onProgress?.(100)
+    return blob
+  }
+
+  const reader = response.body.getReader()
+  const chunks: BlobPart[] = []
+  let received = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    received += value.length
+    onProgress?.((received / total) * 100)
+  }
+  onProgress?.(100)
+  return new Blob(chunks, { type: response.headers.get('Content-Type') ?? undefined })
+}
+
+/**
+ * Downloads a generated result for the gallery cache. A failed download
+ * resolves to undefined so the result is kept with just its URL, which the
+ * gallery fetches again later; aborting through the signal still rejects.
+ */
+export async function fetchResultBlob(url: string, options: FetchProgressOptions = {}): Promise<Blob | undefined> {
+  try {
+    return await fetchWithProgress(url, options)
+  } catch (error) {
+    if (options.signal?.aborted) throw error
+    return undefined
+  }
+}
+
+export interface FilenameFields {
+  /** What the file is, e.g. `generated`, `upscaled` or `original` */
+  type: string
+  id?: string
+  prompt?: string
+  /** Name of the source file, without its extension */
+  name?: string
+  createdAt?: Date
+  /** Position of the file within an archive, 1-based */
+  index?: number
+}
+
+function slugify(value: string, maxLength = 40) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, maxLength)
+    .replace(/-+$/, '')
+}
+
+/**
+ * Fills a filename template. Supported tokens are {type}, {id}, {prompt},
+ * {name}, {date}, {time} and {index}; unknown or empty tokens are dropped
+ * along with the separator before them.
+ */
+export function formatFilename(pattern: string, fields: FilenameFields, extension: string) {
+  const date = fields.createdAt ?? new Date()
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const values: Record<string, string> = {
+    type: slugify(fields.type),
+    id: slugify(fields.id ?? ''),
+    prompt: slugify(fields.prompt ?? ''),
+    name: slugify(fields.name?.replace(/\.[^.]+$/, '') ?? ''),
+    date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`,
+    index: fields.index ? String(fields.index).padStart(3, '0') : ''
+  }
+  const base = pattern
+    .replace(/([-_ .]*)\{(\w+)\}/g, (_, separator: string, token: string) =>
+      values[token] ? `${separator}${values[token]}` : ''
+    )
+    .replace(/[\\/:*?"<>|]+/g, '-')
+    .replace(/^[-_ .]+/, '')
+  return `${base || values.type || 'image'}.${extension}`
+}
+
+async function convertImage(blob: Blob, mimeType: string): Promise<Blob> {
+  const bitmap = await createImageBitmap(blob)
+  const canvas = document.createElement('canvas')
+  canvas.width = bitmap.width
+  canvas.height = bitmap.height
+  const ctx = canvas.getContext('2d')!
+  if (mimeType === 'image/jpeg') {
+    // JPEG has no alpha channel, so flatten transparent areas onto white
+    ctx.fillStyle = '#ffffff'
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+  }
+  ctx.drawImage(bitmap, 0, 0)
+  bitmap.close()
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (result) => result ? resolve(result) : reject(new Error(`Could not encode image as ${mimeType}`)),
+      mimeType,
+      0.92
+    )
+  })
+}
+
+/** Hands a blob to the browser as a file download */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = window.URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  window.URL.revokeObjectURL(url)
+  document.body.removeChild(a)
+}
+
+/** Image bytes in the download format from the settings, with the matching extension */
+export async function prepareImage(source: Blob | string): Promise<{ blob: Blob; extension: string }> {
+  const { format } = getSettings().downloads
+  const blob = typeof source === 'string' ? await fetchWithProgress(source) : source
+  const mimeType = `image/${format}`
+  return {
+    blob: blob.type === mimeType ? blob : await convertImage(blob, mimeType),
+    extension: format === 'jpeg' ? 'jpg' : format
+  }
+}
+
+/** A given filename with its extension replaced and characters files cannot have removed */
+export function withExtension(filename: string, extension: string) {
+  return `${filename.replace(/\.[^.]+$/, '').replace(/[\\/:*?"<>|]+/g, '-')}.${extension}`
+}
+
+/**
+ * Saves an image to disk using the download settings: the bytes are
+ * converted to the preferred format and named from the filename pattern,
+ * unless a `filename` is given. Its extension is replaced to match the format.
+ */
+export async function saveImage(source: Blob | string, fields: FilenameFields, filename?: string) {
+  const { blob, extension } = await prepareImage(source)
+  downloadBlob(blob, filename
+    ? withExtension(filename, extension)
+    : formatFilename(getSettings().downloads.filenamePattern, fields, extension))
+}
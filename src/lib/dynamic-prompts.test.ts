@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { expandPrompts, type ExpandPromptsOptions } from './dynamic-prompts'
+
+const all: ExpandPromptsOptions = { mode: 'all', count: 0, limit: 100, seed: 1, wildcards: [] }
+
+function expandAll(source: string, options: Partial<ExpandPromptsOptions> = {}) {
+  return expandPrompts([source], { ...all, ...options })
+}
+
+describe('expandPrompts', () => {
+  it('lists every combination of the alternatives in order', () => {
+    const { prompts, total } = expandAll('a {red|blue} {cat|dog}')
+
+    expect(prompts.map((p) => p.prompt)).toEqual(['a red cat', 'a red dog', 'a blue cat', 'a blue dog'])
+    expect(total).toBe(4)
+  })
+
+  it('keeps braces around a single alternative as text', () => {
+    expect(expandAll('a photo of {product}').prompts.map((p) => p.prompt)).toEqual(['a photo of {product}'])
+  })
+
+  it('expands nested alternatives', () => {
+    const { prompts, total } = expandAll('{sun|{light|heavy} rain}')
+
+    expect(prompts.map((p) => p.prompt)).toEqual(['sun', 'light rain', 'heavy rain'])
+    expect(total).toBe(3)
+  })
+
+  it('picks ranges of distinct alternatives joined by commas', () => {
+    const { prompts, total } = expandAll('{1-2$$red|blue|gold}')
+
+    expect(prompts.map((p) => p.prompt)).toEqual([
+      'red', 'blue', 'gold', 'red, blue', 'red, gold', 'blue, gold'
+    ])
+    expect(total).toBe(6)
+  })
+
+  it('cleans up the separators an empty pick leaves behind', () => {
+    expect(expandAll('a cat, {0-1$$hat}, at night').prompts.map((p) => p.prompt)).toEqual([
+      'a cat, at night',
+      'a cat, hat, at night'
+    ])
+  })
+
+  it('fills wildcards, including ones that refer to other wildcards', () => {
+    const wildcards = [
+      { name: 'colors', values: ['red', '__metals__'] },
+      { name: 'metals', values: ['gold', 'silver'] }
+    ]
+
+    const { prompts, total } = expandAll('a __colors__ car', { wildcards })
+
+    expect(prompts.map((p) => p.prompt)).toEqual(['a red car', 'a gold car', 'a silver car'])
+    expect(total).toBe(3)
+  })
+
+  it('keeps undefined wildcards as text and reports them', () => {
+    const { prompts, missingWildcards } = expandAll('a __colors__ car')
+
+    expect(prompts.map((p) => p.prompt)).toEqual(['a __colors__ car'])
+    expect(missingWildcards).toEqual(['colors'])
+  })
+
+  it('stops at the limit but still counts every combination', () => {
+    const { prompts, total } = expandAll('{a|b|c} {d|e|f}', { limit: 2 })
+
+    expect(prompts).toHaveLength(2)
+    expect(total).toBe(9)
+  })
+
+  it('drops duplicates and records which source each prompt came from', () => {
+    const { prompts } = expandPrompts(['{cat|dog}', '{dog|bird}'], all)
+
+    expect(prompts).toEqual([
+      { prompt: 'cat', source: 0 },
+      { prompt: 'dog', source: 0 },
+      { prompt: 'bird', source: 1 }
+    ])
+  })
+
+  it('samples the same prompts for the same seed', () => {
+    const random: ExpandPromptsOptions = { ...all, mode: 'random', count: 3, seed: 42 }
+    const source = '{red|blue|green|gold} {cat|dog|bird}'
+
+    const first = expandPrompts([source], random)
+
+    expect(first.prompts).toHaveLength(3)
+    expect(expandPrompts([source], random)).toEqual(first)
+  })
+
+  it('never samples an alternative weighted 0 while others are left', () => {
+    const { prompts } = expandPrompts(['{0::rare|common}'], { ...all, mode: 'random', count: 1, seed: 7 })
+
+    expect(prompts.map((p) => p.prompt)).toEqual(['common'])
+  })
+
+  it('returns fewer samples when there are not enough combinations', () => {
+    const { prompts } = expandPrompts(['{cat|dog}'], { ...all, mode: 'random', count: 5, seed: 3 })
+
+    expect(prompts.map((p) => p.prompt).sort()).toEqual(['cat', 'dog'])
+  })
+})
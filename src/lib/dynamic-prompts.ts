@@ -0,0 +1,340 @@
+import type { Wildcard } from './wildcards'
+
+// Dynamic prompt grammar:
+//   {red|blue|green}     one of the alternatives
+//   {3::red|blue}        weighted alternatives, used when sampling at random
+//   {1-2$$red|blue|gold} between 1 and 2 distinct alternatives, joined by ", "
+//   __colors__           one value of the `colors` wildcard
+// Alternatives can nest and contain wildcards. Braces around a single
+// alternative, such as template variables like {product}, are kept as text.
+
+type PromptNode =
+  | { type: 'text'; value: string }
+  | { type: 'choice'; options: ChoiceOption[]; min: number; max: number }
+  | { type: 'wildcard'; name: string }
+
+interface ChoiceOption {
+  weight: number
+  nodes: PromptNode[]
+}
+
+const RANGE = /^(\d+)(?:-(\d+))?\$\$/
+const WEIGHT = /^(\d+(?:\.\d+)?)::/
+const WILDCARD = /^__([\w-]+(?:\/[\w-]+)*)__/
+const SELECTION_SEPARATOR = ', '
+// Wildcards may refer to other wildcards; deeper chains are kept as text
+const MAX_WILDCARD_DEPTH = 8
+
+function findClosingBrace(text: string, start: number) {
+  let depth = 0
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '{') depth++
+    if (text[i] === '}' && --depth === 0) return i
+  }
+  return -1
+}
+
+function splitAlternatives(text: string) {
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+  for (const char of text) {
+    if (char === '{') depth++
+    if (char === '}') depth--
+    if (char === '|' && depth === 0) {
+      parts.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  parts.push(current)
+  return parts
+}
+
+function parseChoice(content: string): PromptNode | null {
+  const range = RANGE.exec(content)
+  const alternatives = splitAlternatives(range ? content.slice(range[0].length) : content)
+  if (!range && alternatives.length < 2) return null
+
+  const options = alternatives.map((alternative): ChoiceOption => {
+    const trimmed = alternative.trim()
+    const weight = WEIGHT.exec(trimmed)
+    return {
+      weight: weight ? Number(weight[1]) : 1,
+      nodes: parseNodes(weight ? trimmed.slice(weight[0].length).trim() : trimmed)
+    }
+  })
+  const low = range ? Number(range[1]) : 1
+  const high = range?.[2] ? Number(range[2]) : low
+  return {
+    type: 'choice',
+    options,
+    min: Math.min(low, high, options.length),
+    max: Math.min(Math.max(low, high), options.length)
+  }
+}
+
+function parseNodes(text: string): PromptNode[] {
+  const nodes: PromptNode[] = []
+  let literal = ''
+  const flush = () => {
+    if (literal) nodes.push({ type: 'text', value: literal })
+    literal = ''
+  }
+
+  let i = 0
+  while (i < text.length) {
+    if (text[i] === '{') {
+      const end = findClosingBrace(text, i)
+      if (end === -1) {
+        // Unbalanced braces are kept as written
+        literal += text.slice(i)
+        break
+      }
+      const choice = parseChoice(text.slice(i + 1, end))
+      if (choice) {
+        flush()
+        nodes.push(choice)
+      } else {
+        literal += text.slice(i, end + 1)
+      }
+      i = end + 1
+      continue
+    }
+    const wildcard = text.startsWith('__', i) ? WILDCARD.exec(text.slice(i)) : null
+    if (wildcard) {
+      flush()
+      nodes.push({ type: 'wildcard', name: wildcard[1] })
+      i += wildcard[0].length
+      continue
+    }
+    literal += text[i]
+    i++
+  }
+  flush()
+  return nodes
+}
+
+interface WildcardResolver {
+  /** Parsed values of a wildcard, or null when it should be kept as text */
+  resolve(name: string, depth: number): PromptNode[][] | null
+  /** Names that were used but are not defined */
+  missing: Set<string>
+}
+
+// Parses each wildcard value once, on first use
+function createWildcardResolver(wildcards: Wildcard[]): WildcardResolver {
+  const values = new Map(wildcards.map((wildcard) => [wildcard.name, wildcard.values]))
+  const parsed = new Map<string, PromptNode[][]>()
+  const missing = new Set<string>()
+
+  return {
+    missing,
+    resolve(name, depth) {
+      const entries = values.get(name)
+      if (!entries || entries.length === 0) {
+        missing.add(name)
+        return null
+      }
+      if (depth >= MAX_WILDCARD_DEPTH) return null
+      let nodes = parsed.get(name)
+      if (!nodes) {
+        nodes = entries.map(parseNodes)
+        parsed.set(name, nodes)
+      }
+      return nodes
+    }
+  }
+}
+
+function countNodes(nodes: PromptNode[], resolver: WildcardResolver, depth: number): number {
+  return nodes.reduce((total, node) => total * countNode(node, resolver, depth), 1)
+}
+
+function countNode(node: PromptNode, resolver: WildcardResolver, depth: number): number {
+  if (node.type === 'text') return 1
+  if (node.type === 'wildcard') {
+    const values = resolver.resolve(node.name, depth)
+    return values ? values.reduce((sum, value) => sum + countNodes(value, resolver, depth + 1), 0) : 1
+  }
+  // Ways to pick k of the options is the k-th elementary symmetric sum of their counts
+  const sums = [1, ...node.options.map(() => 0)]
+  node.options.forEach((option) => {
+    const count = countNodes(option.nodes, resolver, depth)
+    for (let k = sums.length - 1; k > 0; k--) {
+      sums[k] += sums[k - 1] * count
+    }
+  })
+  return sums.slice(node.min, node.max + 1).reduce((sum, value) => sum + value, 0)
+}
+
+function* combinations(size: number, count: number, start = 0): Generator<number[]> {
+  if (size === 0) {
+    yield []
+    return
+  }
+  for (let i = start; i <= count - size; i++) {
+    for (const rest of combinations(size - 1, count, i + 1)) {
+      yield [i, ...rest]
+    }
+  }
+}
+
+function* enumerateParts(
+  parts: Array<() => Generator<string>>,
+  separator: string
+): Generator<string> {
+  if (parts.length === 0) {
+    yield ''
+    return
+  }
+  const [first, ...rest] = parts
+  for (const head of first()) {
+    for (const tail of enumerateParts(rest, separator)) {
+      yield rest.length > 0 ? `${head}${separator}${tail}` : head
+    }
+  }
+}
+
+function* enumerateNodes(nodes: PromptNode[], resolver: WildcardResolver, depth: number): Generator<string> {
+  yield* enumerateParts(nodes.map((node) => () => enumerateNode(node, resolver, depth)), '')
+}
+
+function* enumerateNode(node: PromptNode, resolver: WildcardResolver, depth: number): Generator<string> {
+  if (node.type === 'text') {
+    yield node.value
+    return
+  }
+  if (node.type === 'wildcard') {
+    const values = resolver.resolve(node.name, depth)
+    if (!values) {
+      yield `__${node.name}__`
+      return
+    }
+    for (const value of values) {
+      yield* enumerateNodes(value, resolver, depth + 1)
+    }
+    return
+  }
+  for (let size = node.min; size <= node.max; size++) {
+    for (const picked of combinations(size, node.options.length)) {
+      yield* enumerateParts(
+        picked.map((index) => () => enumerateNodes(node.options[index].nodes, resolver, depth)),
+        SELECTION_SEPARATOR
+      )
+    }
+  }
+}
+
+function sampleNodes(nodes: PromptNode[], resolver: WildcardResolver, random: () => number, depth: number): string {
+  return nodes.map((node) => sampleNode(node, resolver, random, depth)).join('')
+}
+
+function sampleNode(node: PromptNode, resolver: WildcardResolver, random: () => number, depth: number): string {
+  if (node.type === 'text') return node.value
+  if (node.type === 'wildcard') {
+    const values = resolver.resolve(node.name, depth)
+    if (!values) return `__${node.name}__`
+    return sampleNodes(values[Math.floor(random() * values.length)], resolver, random, depth + 1)
+  }
+  const size = node.min + Math.floor(random() * (node.max - node.min + 1))
+  // Weighted picks without replacement; options weighted 0 are only picked when nothing else is left
+  const pool = [...node.options]
+  const picked: string[] = []
+  for (let i = 0; i < size; i++) {
+    const total = pool.reduce((sum, option) => sum + option.weight, 0)
+    let target = random() * total
+    let index = total > 0 ? pool.findIndex((option) => (target -= option.weight) < 0) : -1
+    if (index === -1) index = Math.floor(random() * pool.length)
+    const [option] = pool.splice(index, 1)
+    picked.push(sampleNodes(option.nodes, resolver, random, depth))
+  }
+  return picked.join(SELECTION_SEPARATOR)
+}
+
+// Picks that come out empty, e.g. from {0-1$$...}, would otherwise leave stray spaces and commas
+function cleanPrompt(prompt: string) {
+  return prompt
+    .replace(/\s+/g, ' ')
+    .replace(/\s+,/g, ',')
+    .replace(/,(\s*,)+/g, ',')
+    .replace(/^[\s,]+|[\s,]+$/g, '')
+}
+
+// Small seeded generator so a random expansion can be previewed and then generated as shown
+function createRandom(seed: number) {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export type ExpansionMode = 'all' | 'random'
+
+export interface ExpandPromptsOptions {
+  /** `all` lists every combination in order, `random` samples `count` prompts using the weights */
+  mode: ExpansionMode
+  count: number
+  /** Most prompts to return */
+  limit: number
+  seed: number
+  wildcards: Wildcard[]
+}
+
+export interface ExpandedPrompt {
+  prompt: string
+  /** Index of the source prompt it was expanded from */
+  source: number
+}
+
+export interface PromptExpansion {
+  prompts: ExpandedPrompt[]
+  /** Number of combinations across all sources, which may be far more than were returned */
+  total: number
+  /** Wildcards that are used but not defined; they are kept as text */
+  missingWildcards: string[]
+}
+
+/**
+ * Expands dynamic prompts into plain ones. Duplicates are dropped, so fewer
+ * than `count` prompts come back when there are not enough combinations.
+ */
+export function expandPrompts(sources: string[], options: ExpandPromptsOptions): PromptExpansion {
+  const resolver = createWildcardResolver(options.wildcards)
+  const parsed = sources.map(parseNodes)
+  const total = parsed.reduce((sum, nodes) => sum + countNodes(nodes, resolver, 0), 0)
+  const wanted = Math.min(options.limit, options.mode === 'random' ? options.count : total)
+  const seen = new Set<string>()
+  const prompts: ExpandedPrompt[] = []
+
+  const add = (prompt: string, source: number) => {
+    const cleaned = cleanPrompt(prompt)
+    if (!cleaned || seen.has(cleaned)) return
+    seen.add(cleaned)
+    prompts.push({ prompt: cleaned, source })
+  }
+
+  if (options.mode === 'all') {
+    for (const [source, nodes] of parsed.entries()) {
+      for (const prompt of enumerateNodes(nodes, resolver, 0)) {
+        if (prompts.length >= wanted) break
+        add(prompt, source)
+      }
+    }
+  } else if (parsed.length > 0) {
+    // Sources take turns so each gets a fair share of the samples
+    const random = createRandom(options.seed)
+    const maxAttempts = wanted * 20
+    for (let attempt = 0; attempt < maxAttempts && prompts.length < wanted; attempt++) {
+      const source = attempt % parsed.length
+      add(sampleNodes(parsed[source], resolver, random, 0), source)
+    }
+  }
+
+  return { prompts, total, missingWildcards: [...resolver.missing] }
+}
@@ -0,0 +1,107 @@
+import type { BlinkClient } from '@blinkdotnew/sdk'
+import { RECORD_VERSION, type GalleryRecord } from './asset-db'
+import { provenanceSchema, type Provenance } from './provenance'
+
+// One row per gallery image in the `gallery_images` table, scoped by user.
+// Tags and provenance are serialized because the Blink database stores
+// scalar columns only.
+export interface RemoteGalleryRow extends Omit<GalleryRecord, 'schemaVersion' | 'tags' | 'provenance' | 'deletedAt'> {
+  userId: string
+  tags: string
+  provenance: string | null
+  deletedAt: number | null
+}
+
+export interface GalleryRemote {
+  list(userId: string): Promise<RemoteGalleryRow[]>
+  upsertMany(rows: RemoteGalleryRow[]): Promise<void>
+}
+
+const TABLE_NAME = 'gallery_images'
+const PAGE_SIZE = 500
+
+export function toRemoteRow(record: GalleryRecord, userId: string): RemoteGalleryRow {
+  const { schemaVersion: _schemaVersion, tags, provenance, deletedAt, ...rest } = record
+  return {
+    ...rest,
+    userId,
+    tags: JSON.stringify(tags),
+    provenance: provenance ? JSON.stringify(provenance) : null,
+    deletedAt: deletedAt ?? null
+  }
+}
+
+export function fromRemoteRow(row: RemoteGalleryRow): GalleryRecord {
+  const { userId: _userId, tags, provenance, deletedAt, ...rest } = row
+  let parsedTags: string[] = []
+  try {
+    parsedTags = JSON.parse(tags || '[]')
+  } catch {
+    parsedTags = []
+  }
+  // A provenance record that no longer parses is dropped, not the image
+  let parsedProvenance: Provenance | undefined
+  try {
+    const result = provenanceSchema.safeParse(JSON.parse(provenance || 'null'))
+    parsedProvenance = result.success ? result.data : undefined
+  } catch {
+    parsedProvenance = undefined
+  }
+  return {
+    ...rest,
+    schemaVersion: RECORD_VERSION,
+    // Rows written before the column existed come back with null
+    negativePrompt: row.negativePrompt ?? undefined,
+    createdAt: Number(row.createdAt),
+    favorite: Number(row.favorite) === 1 ? 1 : 0,
+    favoriteUpdatedAt: Number(row.favoriteUpdatedAt),
+    tags: parsedTags,
+    provenance: parsedProvenance,
+    tagsUpdatedAt: Number(row.tagsUpdatedAt),
+    deletedAt: deletedAt === null || deletedAt === undefined ? undefined : Number(deletedAt),
+    updatedAt: Number(row.updatedAt)
+  }
+}
+
+export function createBlinkGalleryRemote(client: BlinkClient): GalleryRemote {
+  const table = client.db.table<RemoteGalleryRow>(TABLE_NAME)
+
+  return {
+    async list(userId) {
+      const rows: RemoteGalleryRow[] = []
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        const page = await table.list({
+          where: { userId },
+          orderBy: { createdAt: 'desc' },
+          limit: PAGE_SIZE,
+          offset
+        })
+        rows.push(...page)
+        if (page.length < PAGE_SIZE) break
+      }
+      return rows
+    },
+    async upsertMany(rows) {
+      if (rows.length === 0) return
+      await table.upsertMany(rows, { onConflict: 'id' })
+    }
+  }
+}
+
+/**
+ * In-memory stand-in for the Blink table, for local development and tests.
+ */
+export function createMemoryGalleryRemote(initialRows: RemoteGalleryRow[] = []): GalleryRemote & { rows: Map<string, RemoteGalleryRow> } {
+  const rows = new Map(initialRows.map((row) => [row.id, { ...row }]))
+  return {
+    rows,
+    async list(userId) {
+      return Array.from(rows.values())
+        .filter((row) => row.userId === userId)
+        .map((row) => ({ ...row }))
+    },
+    async upsertMany(upserts) {
+      upserts.forEach((row) => rows.set(row.id, { ...row }))
+    }
+  }
+}
@@ -0,0 +1,239 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { RECORD_VERSION } from './asset-db'
+import {
+  addGalleryImages,
+  getGalleryImages,
+  getGalleryRecords,
+  loadGalleryImages,
+  mergeRecord,
+  openGallery,
+  removeGalleryImage,
+  updateGalleryImage,
+  type GalleryRecord
+} from './gallery'
+import { createMemoryGalleryRemote, toRemoteRow } from './gallery-remote'
+import { mergeGalleryRecords, syncGallery } from './gallery-sync'
+
+function makeRecord(overrides: Partial<GalleryRecord> = {}): GalleryRecord {
+  return {
+    schemaVersion: RECORD_VERSION,
+    id: 'image-1',
+    url: 'https://example.com/image-1.png',
+    prompt: 'a lighthouse at dusk',
+    type: 'generated',
+    createdAt: 100,
+    favorite: 0,
+    favoriteUpdatedAt: 100,
+    tags: [],
+    tagsUpdatedAt: 100,
+    updatedAt: 100,
+    ...overrides
+  }
+}
+
+describe('mergeRecord', () => {
+  it('keeps the newest favorite flag and tags independently', () => {
+    const local = makeRecord({ favorite: 1, favoriteUpdatedAt: 300, tags: ['old'], tagsUpdatedAt: 200, updatedAt: 300 })
+    const remote = makeRecord({ favorite: 0, favoriteUpdatedAt: 250, tags: ['new'], tagsUpdatedAt: 400, updatedAt: 400 })
+
+    const merged = mergeRecord(local, remote)
+
+    expect(merged.favorite).toBe(1)
+    expect(merged.favoriteUpdatedAt).toBe(300)
+    expect(merged.tags).toEqual(['new'])
+    expect(merged.tagsUpdatedAt).toBe(400)
+    expect(merged.updatedAt).toBe(400)
+    expect(mergeRecord(remote, local)).toEqual(merged)
+  })
+
+  it('lets an edit made after a deletion bring the record back', () => {
+    const deleted = makeRecord({ deletedAt: 200, updatedAt: 200 })
+    const edited = makeRecord({ favorite: 1, favoriteUpdatedAt: 300, updatedAt: 300 })
+
+    const merged = mergeRecord(deleted, edited)
+
+    expect(merged.deletedAt).toBeUndefined()
+    expect(merged.favorite).toBe(1)
+  })
+
+  it('keeps a deletion made after the last edit', () => {
+    const deleted = makeRecord({ deletedAt: 400, updatedAt: 400 })
+    const edited = makeRecord({ tags: ['kept'], tagsUpdatedAt: 300, updatedAt: 300 })
+
+    expect(mergeRecord(edited, deleted).deletedAt).toBe(400)
+  })
+})
+
+describe('mergeGalleryRecords', () => {
+  it('pushes local-only records and applies remote-only ones', () => {
+    const localOnly = makeRecord({ id: 'local' })
+    const remoteOnly = makeRecord({ id: 'remote' })
+
+    const { toApply, toPush } = mergeGalleryRecords([localOnly], [remoteOnly])
+
+    expect(toPush).toEqual([localOnly])
+    expect(toApply).toEqual([remoteOnly])
+  })
+
+  it('skips remote deletions of records this device does not have', () => {
+    const tombstone = makeRecord({ id: 'gone', deletedAt: 200, updatedAt: 200 })
+
+    expect(mergeGalleryRecords([], [tombstone])).toEqual({ toApply: [], toPush: [] })
+  })
+
+  it('leaves records that are the same on both sides alone', () => {
+    const record = makeRecord()
+
+    expect(mergeGalleryRecords([record], [{ ...record }])).toEqual({ toApply: [], toPush: [] })
+  })
+
+  it('applies and pushes a record both sides changed', () => {
+    const local = makeRecord({ favorite: 1, favoriteUpdatedAt: 300, updatedAt: 300 })
+    const remote = makeRecord({ tags: ['sea'], tagsUpdatedAt: 200, updatedAt: 200 })
+
+    const { toApply, toPush } = mergeGalleryRecords([local], [remote])
+
+    expect(toApply).toHaveLength(1)
+    expect(toPush).toEqual(toApply)
+    expect(toApply[0]).toMatchObject({ favorite: 1, tags: ['sea'] })
+  })
+})
+
+describe('syncGallery', () => {
+  let userId: string
+  let closeGallery: () => void
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(1_000)
+    // Caching image bytes is best-effort, so it may as well fail here
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('offline')))
+    // Each test gets a database of its own
+    userId = `user-${crypto.randomUUID()}`
+    closeGallery = openGallery(userId)
+    await loadGalleryImages()
+  })
+
+  afterEach(() => {
+    closeGallery()
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  const addImage = (id: string) => addGalleryImages([{
+    id,
+    url: `https://example.com/${id}.png`,
+    prompt: 'a lighthouse at dusk',
+    type: 'generated'
+  }])
+
+  it('pushes local images and pulls remote ones', async () => {
+    addImage('local')
+    const remote = createMemoryGalleryRemote([toRemoteRow(makeRecord({ id: 'remote' }), userId)])
+
+    await syncGallery(remote, userId)
+
+    expect(Array.from(remote.rows.keys()).sort()).toEqual(['local', 'remote'])
+    expect(getGalleryImages().map((image) => image.id).sort()).toEqual(['local', 'remote'])
+  })
+
+  it('does not mix in rows of other users', async () => {
+    const remote = createMemoryGalleryRemote([toRemoteRow(makeRecord({ id: 'theirs' }), 'someone-else')])
+
+    await syncGallery(remote, userId)
+
+    expect(getGalleryImages()).toEqual([])
+  })
+
+  it('merges fields changed on either side', async () => {
+    addImage('image-1')
+    const remote = createMemoryGalleryRemote()
+    await syncGallery(remote, userId)
+
+    vi.setSystemTime(2_000)
+    updateGalleryImage('image-1', { isFavorite: true })
+    const row = remote.rows.get('image-1')!
+    remote.rows.set('image-1', { ...row, tags: JSON.stringify(['sea']), tagsUpdatedAt: 3_000, updatedAt: 3_000 })
+
+    await syncGallery(remote, userId)
+
+    expect(getGalleryImages()[0]).toMatchObject({ isFavorite: true, tags: ['sea'] })
+    expect(remote.rows.get('image-1')).toMatchObject({ favorite: 1, tags: JSON.stringify(['sea']) })
+  })
+
+  it('removes images deleted elsewhere and purges the tombstone once synced', async () => {
+    addImage('image-1')
+    const remote = createMemoryGalleryRemote()
+    await syncGallery(remote, userId)
+
+    const row = remote.rows.get('image-1')!
+    remote.rows.set('image-1', { ...row, deletedAt: 2_000, updatedAt: 2_000 })
+    await syncGallery(remote, userId)
+
+    expect(getGalleryImages()).toEqual([])
+    expect(getGalleryRecords()).toEqual([])
+  })
+
+  it('keeps an image edited after it was deleted elsewhere', async () => {
+    addImage('image-1')
+    const remote = createMemoryGalleryRemote()
+    await syncGallery(remote, userId)
+
+    const row = remote.rows.get('image-1')!
+    remote.rows.set('image-1', { ...row, deletedAt: 2_000, updatedAt: 2_000 })
+    vi.setSystemTime(3_000)
+    updateGalleryImage('image-1', { tags: ['keep'] })
+
+    await syncGallery(remote, userId)
+
+    expect(getGalleryImages()[0]).toMatchObject({ id: 'image-1', tags: ['keep'] })
+    expect(remote.rows.get('image-1')?.deletedAt).toBeNull()
+  })
+
+  it('pushes a local deletion', async () => {
+    addImage('image-1')
+    const remote = createMemoryGalleryRemote()
+    await syncGallery(remote, userId)
+
+    vi.setSystemTime(2_000)
+    removeGalleryImage('image-1')
+    await syncGallery(remote, userId)
+
+    expect(remote.rows.get('image-1')?.deletedAt).toBe(2_000)
+    expect(getGalleryRecords()).toEqual([])
+  })
+
+  it('keeps a local edit made while the sync was running', async () => {
+    addImage('image-1')
+    const remote = createMemoryGalleryRemote()
+    await syncGallery(remote, userId)
+
+    const row = remote.rows.get('image-1')!
+    remote.rows.set('image-1', { ...row, favorite: 1, favoriteUpdatedAt: 2_000, updatedAt: 2_000 })
+    const upsertMany = remote.upsertMany
+    remote.upsertMany = async (rows) => {
+      vi.setSystemTime(3_000)
+      updateGalleryImage('image-1', { tags: ['mid-sync'] })
+      await upsertMany(rows)
+    }
+
+    await syncGallery(remote, userId)
+
+    expect(getGalleryImages()[0]).toMatchObject({ isFavorite: true, tags: ['mid-sync'] })
+  })
+
+  it('stops when the user signs out during the sync', async () => {
+    const remote = createMemoryGalleryRemote([toRemoteRow(makeRecord({ id: 'remote' }), userId)])
+    const list = remote.list
+    remote.list = async (id) => {
+      const rows = await list(id)
+      closeGallery()
+      return rows
+    }
+
+    const result = await syncGallery(remote, userId)
+
+    expect(result).toEqual({ toApply: [], toPush: [] })
+    expect(getGalleryImages()).toEqual([])
+  })
+})
@@ -0,0 +1,127 @@
+import {
+  applySyncedRecords,
+  getGalleryOwner,
+  getGalleryRecords,
+  loadGalleryImages,
+  mergeRecord,
+  purgeSyncedDeletions,
+  subscribeToLocalGalleryChanges,
+  type GalleryRecord
+} from './gallery'
+import { fromRemoteRow, toRemoteRow, type GalleryRemote } from './gallery-remote'
+
+const SYNC_DEBOUNCE_MS = 2000
+
+function isSameRecord(a: GalleryRecord, b: GalleryRecord) {
+  return a.favorite === b.favorite &&
+    a.favoriteUpdatedAt === b.favoriteUpdatedAt &&
+    a.tags.join('\u0000') === b.tags.join('\u0000') &&
+    a.tagsUpdatedAt === b.tagsUpdatedAt &&
+    a.deletedAt === b.deletedAt &&
+    a.updatedAt === b.updatedAt
+}
+
+export interface GalleryMergeResult {
+  /** Records whose local copy must be replaced */
+  toApply: GalleryRecord[]
+  /** Records the remote is missing or has an older copy of */
+  toPush: GalleryRecord[]
+}
+
+export function mergeGalleryRecords(local: GalleryRecord[], remote: GalleryRecord[]): GalleryMergeResult {
+  const localById = new Map(local.map((record) => [record.id, record]))
+  const remoteById = new Map(remote.map((record) => [record.id, record]))
+  const toApply: GalleryRecord[] = []
+  const toPush: GalleryRecord[] = []
+
+  localById.forEach((localRecord, id) => {
+    const remoteRecord = remoteById.get(id)
+    if (!remoteRecord) {
+      toPush.push(localRecord)
+      return
+    }
+    const merged = mergeRecord(localRecord, remoteRecord)
+    if (!isSameRecord(merged, localRecord)) toApply.push(merged)
+    if (!isSameRecord(merged, remoteRecord)) toPush.push(merged)
+  })
+
+  // Deletions of records this device never had, or has already purged, need no tombstone here
+  remoteById.forEach((remoteRecord, id) => {
+    if (!localById.has(id) && remoteRecord.deletedAt === undefined) {
+      toApply.push(remoteRecord)
+    }
+  })
+
+  return { toApply, toPush }
+}
+
+/**
+ * Merges the local gallery with the user's remote rows. Only records of the
+ * user the gallery is open for take part, so a sync that outlives a sign-out
+ * stops instead of mixing two accounts.
+ */
+export async function syncGallery(remote: GalleryRemote, userId: string): Promise<GalleryMergeResult> {
+  const empty: GalleryMergeResult = { toApply: [], toPush: [] }
+  await loadGalleryImages()
+  const rows = await remote.list(userId)
+  if (getGalleryOwner() !== userId) return empty
+  const remoteRecords = rows.map(fromRemoteRow)
+  const result = mergeGalleryRecords(getGalleryRecords(), remoteRecords)
+  await remote.upsertMany(result.toPush.map((record) => toRemoteRow(record, userId)))
+  if (getGalleryOwner() !== userId) return empty
+  applySyncedRecords(result.toApply)
+  // What the remote holds now: its rows, replaced by the records just pushed
+  const onRemote = new Map([...remoteRecords, ...result.toPush].map((record) => [record.id, record]))
+  purgeSyncedDeletions(Array.from(onRemote.values()))
+  return result
+}
+
+/**
+ * Keeps the local gallery in sync with the remote for as long as the user is
+ * signed in: once on start, shortly after each local change, and whenever the
+ * window regains focus or the browser comes back online.
+ */
+export function startGallerySync(remote: GalleryRemote, userId: string) {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let running: Promise<void> | null = null
+  let pending = false
+  let stopped = false
+
+  const run = () => {
+    if (stopped) return
+    if (running) {
+      pending = true
+      return
+    }
+    running = syncGallery(remote, userId)
+      .then(() => undefined)
+      .catch((error) => {
+        console.error('Error syncing gallery:', error)
+      })
+      .finally(() => {
+        running = null
+        if (pending) {
+          pending = false
+          run()
+        }
+      })
+  }
+
+  const schedule = () => {
+    clearTimeout(timer)
+    timer = setTimeout(run, SYNC_DEBOUNCE_MS)
+  }
+
+  const unsubscribe = subscribeToLocalGalleryChanges(schedule)
+  window.addEventListener('focus', run)
+  window.addEventListener('online', run)
+  run()
+
+  return () => {
+    stopped = true
+    clearTimeout(timer)
+    unsubscribe()
+    window.removeEventListener('focus', run)
+    window.removeEventListener('online', run)
+  }
+}
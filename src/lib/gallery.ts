@@ -0,0 +1,344 @@
+import {
+  RECORD_VERSION,
+  deleteBlob,
+  deleteRecord,
+  getAllRecords,
+  getBlob,
+  putBlob,
+  putRecords,
+  queryRecords,
+  setAssetDbUser,
+  type GalleryQuery,
+  type GalleryRecord
+} from './asset-db'
+import type { Provenance } from './provenance'
+
+export type GalleryImageType = GalleryRecord['type']
+
+export interface GalleryImage {
+  id: string
+  url: string
+  prompt: string
+  negativePrompt?: string
+  type: GalleryImageType
+  size?: string
+  quality?: string
+  style?: string
+  scale?: string
+  mode?: string
+  filename?: string
+  provenance?: Provenance
+  tags: string[]
+  createdAt: Date
+  isFavorite: boolean
+}
+
+export type NewGalleryImage = Omit<GalleryImage, 'createdAt' | 'isFavorite' | 'tags'> & {
+  createdAt?: Date
+  isFavorite?: boolean
+  tags?: string[]
+  /** Bytes already downloaded for the image, cached instead of refetching */
+  blob?: Blob
+}
+
+export type { GalleryQuery, GalleryRecord }
+
+type Listener = (images: GalleryImage[]) => void
+
+const listeners: Listener[] = []
+const localChangeListeners: Array<() => void> = []
+
+// Every record, including deletion tombstones that still need to be synced
+const records = new Map<string, GalleryRecord>()
+let memoryState: GalleryImage[] = []
+let isLoaded = false
+let loadPromise: Promise<GalleryImage[]> | null = null
+// The signed-in user whose gallery the records belong to
+let ownerId: string | null = null
+
+function fromRecord(record: GalleryRecord): GalleryImage {
+  const {
+    schemaVersion: _schemaVersion,
+    createdAt,
+    favorite,
+    favoriteUpdatedAt: _favoriteUpdatedAt,
+    tagsUpdatedAt: _tagsUpdatedAt,
+    deletedAt: _deletedAt,
+    updatedAt: _updatedAt,
+    ...rest
+  } = record
+  return {
+    ...rest,
+    createdAt: new Date(createdAt),
+    isFavorite: favorite === 1
+  }
+}
+
+function publish() {
+  memoryState = Array.from(records.values())
+    .filter((record) => record.deletedAt === undefined)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(fromRecord)
+  listeners.forEach((listener) => listener(memoryState))
+}
+
+// Queries wait for the writes before them, so they see every published change
+let pendingWrites: Promise<unknown> = Promise.resolve()
+
+function trackWrite(write: Promise<unknown>) {
+  pendingWrites = Promise.all([pendingWrites, write])
+}
+
+function persist(changed: GalleryRecord[]) {
+  trackWrite(putRecords(changed).catch((error) => {
+    console.error('Error saving gallery images:', error)
+  }))
+}
+
+function commitLocalChange(changed: GalleryRecord[]) {
+  changed.forEach((record) => records.set(record.id, record))
+  publish()
+  persist(changed)
+  localChangeListeners.forEach((listener) => listener())
+}
+
+/**
+ * Switches the gallery to the given user's images, loaded from their own
+ * database. Returns a function that empties it again, e.g. when the user
+ * signs out.
+ */
+export function openGallery(userId: string) {
+  switchOwner(userId)
+  return () => switchOwner(null)
+}
+
+function switchOwner(userId: string | null) {
+  ownerId = userId
+  setAssetDbUser(userId)
+  records.clear()
+  isLoaded = false
+  loadPromise = null
+  publish()
+}
+
+/** Id of the user the gallery currently holds the images of */
+export function getGalleryOwner() {
+  return ownerId
+}
+
+export function isGalleryLoaded() {
+  return isLoaded
+}
+
+export function getGalleryImages(): GalleryImage[] {
+  return memoryState
+}
+
+export function getGalleryRecords(): GalleryRecord[] {
+  return Array.from(records.values())
+}
+
+export function loadGalleryImages(): Promise<GalleryImage[]> {
+  if (!loadPromise) {
+    const owner = ownerId
+    loadPromise = getAllRecords()
+      .catch((error) => {
+        console.error('Error loading gallery images:', error)
+        return []
+      })
+      .then((loaded) => {
+        // Records of a user who signed out in the meantime are dropped
+        if (ownerId !== owner) return memoryState
+        // Anything added while the store was still opening takes precedence
+        loaded.forEach((record) => {
+          if (!records.has(record.id)) {
+            records.set(record.id, record)
+          }
+        })
+        isLoaded = true
+        publish()
+        return memoryState
+      })
+  }
+  return loadPromise
+}
+
+function matchesQuery(image: GalleryImage, query: GalleryQuery) {
+  const createdAt = image.createdAt.getTime()
+  return (!query.type || image.type === query.type) &&
+    (!query.favoritesOnly || image.isFavorite) &&
+    (!query.since || createdAt >= query.since.getTime()) &&
+    (!query.until || createdAt <= query.until.getTime())
+}
+
+/**
+ * Images matching the query, newest first, read through the asset store's
+ * indexes. Falls back to filtering the loaded images when the store cannot
+ * be opened, e.g. in private browsing.
+ */
+export async function queryGalleryImages(query: GalleryQuery = {}): Promise<GalleryImage[]> {
+  await pendingWrites
+  try {
+    const results = await queryRecords(query)
+    return results.map(fromRecord)
+  } catch (error) {
+    console.error('Error querying gallery images:', error)
+    const images = (await loadGalleryImages()).filter((image) => matchesQuery(image, query))
+    return query.limit ? images.slice(0, query.limit) : images
+  }
+}
+
+export function addGalleryImages(images: NewGalleryImage[]) {
+  if (images.length === 0) return
+  const now = Date.now()
+  const added: GalleryRecord[] = images.map(({ createdAt, isFavorite, tags, blob: _blob, ...img }) => ({
+    ...img,
+    schemaVersion: RECORD_VERSION,
+    createdAt: createdAt?.getTime() ?? now,
+    favorite: isFavorite ? 1 : 0,
+    favoriteUpdatedAt: now,
+    tags: tags ?? [],
+    tagsUpdatedAt: now,
+    updatedAt: now
+  }))
+  commitLocalChange(added)
+  added.forEach((record, index) => {
+    const { blob } = images[index]
+    const cached = blob ? putBlob(record.id, blob) : cacheImageBlob(record)
+    cached.catch(() => {
+      // Caching is best-effort; the remote URL is still the source of truth
+    })
+  })
+}
+
+export function updateGalleryImage(id: string, changes: Partial<Omit<GalleryImage, 'id' | 'createdAt'>>) {
+  const record = records.get(id)
+  if (!record) return
+  const now = Date.now()
+  const { isFavorite, tags, ...rest } = changes
+  const updated: GalleryRecord = { ...record, ...rest, updatedAt: now }
+  if (isFavorite !== undefined) {
+    updated.favorite = isFavorite ? 1 : 0
+    updated.favoriteUpdatedAt = now
+  }
+  if (tags !== undefined) {
+    updated.tags = Array.from(new Set(tags.map((tag) => tag.trim()).filter(Boolean)))
+    updated.tagsUpdatedAt = now
+  }
+  commitLocalChange([updated])
+}
+
+export function removeGalleryImage(id: string) {
+  const record = records.get(id)
+  if (!record) return
+  const now = Date.now()
+  commitLocalChange([{ ...record, deletedAt: now, updatedAt: now }])
+  deleteBlob(id).catch((error) => {
+    console.error('Error deleting cached image:', error)
+  })
+}
+
+/**
+ * Merges two copies of the same record field by field: the favorite flag and
+ * the tags each keep whichever side changed them last, and a deletion wins
+ * unless one of those fields was edited after it.
+ */
+export function mergeRecord(local: GalleryRecord, remote: GalleryRecord): GalleryRecord {
+  const base = local.updatedAt >= remote.updatedAt ? local : remote
+  const favoriteSource = local.favoriteUpdatedAt >= remote.favoriteUpdatedAt ? local : remote
+  const tagsSource = local.tagsUpdatedAt >= remote.tagsUpdatedAt ? local : remote
+
+  const deletions = [local.deletedAt, remote.deletedAt].filter((value): value is number => value !== undefined)
+  const lastEdit = Math.max(favoriteSource.favoriteUpdatedAt, tagsSource.tagsUpdatedAt)
+  const deletedAt = deletions.length > 0 && Math.max(...deletions) >= lastEdit
+    ? Math.max(...deletions)
+    : undefined
+
+  return {
+    ...base,
+    favorite: favoriteSource.favorite,
+    favoriteUpdatedAt: favoriteSource.favoriteUpdatedAt,
+    tags: tagsSource.tags,
+    tagsUpdatedAt: tagsSource.tagsUpdatedAt,
+    deletedAt,
+    updatedAt: Math.max(local.updatedAt, remote.updatedAt)
+  }
+}
+
+/**
+ * Takes in the result of a sync merge. Each record is merged again with its
+ * local copy, which may have been edited while the sync was running. Unlike
+ * the mutations above this does not count as a local change.
+ */
+export function applySyncedRecords(synced: GalleryRecord[]) {
+  if (synced.length === 0) return
+  const applied = synced.map((record) => {
+    const current = records.get(record.id)
+    return current ? mergeRecord(current, record) : record
+  })
+  applied.forEach((record) => records.set(record.id, record))
+  publish()
+  persist(applied)
+}
+
+/**
+ * Drops tombstones for good once the remote holds their deletion, so they do
+ * not pile up. Records edited again after the given copy are kept.
+ */
+export function purgeSyncedDeletions(synced: GalleryRecord[]) {
+  const purged = synced.filter((record) => {
+    const current = records.get(record.id)
+    return record.deletedAt !== undefined &&
+      current?.deletedAt !== undefined &&
+      current.updatedAt <= record.updatedAt
+  })
+  purged.forEach((record) => {
+    records.delete(record.id)
+    trackWrite(deleteRecord(record.id).catch((error) => {
+      console.error('Error purging deleted gallery image:', error)
+    }))
+  })
+}
+
+async function cacheImageBlob(image: Pick<GalleryImage, 'id' | 'url'>): Promise<Blob> {
+  const response = await fetch(image.url)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image: ${response.status}`)
+  }
+  const blob = await response.blob()
+  await putBlob(image.id, blob)
+  return blob
+}
+
+/**
+ * Returns the image bytes, preferring the locally cached copy and
+ * falling back to (and caching) the remote URL.
+ */
+export async function getGalleryImageBlob(image: Pick<GalleryImage, 'id' | 'url'>): Promise<Blob> {
+  const cached = await getBlob(image.id).catch(() => undefined)
+  if (cached) return cached
+  return cacheImageBlob(image).catch(async () => {
+    const response = await fetch(image.url)
+    return response.blob()
+  })
+}
+
+export function subscribeToGallery(listener: Listener) {
+  listeners.push(listener)
+  return () => {
+    const index = listeners.indexOf(listener)
+    if (index > -1) {
+      listeners.splice(index, 1)
+    }
+  }
+}
+
+export function subscribeToLocalGalleryChanges(listener: () => void) {
+  localChangeListeners.push(listener)
+  return () => {
+    const index = localChangeListeners.indexOf(listener)
+    if (index > -1) {
+      localChangeListeners.splice(index, 1)
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import {
+  imageQualities,
+  imageSizes,
+  imageStyles,
+  type ImageQuality,
+  type ImageSize,
+  type ImageStyle
+} from './image-provider'
+
+/** Generator setup as it is encoded in the /generate query string */
+export interface GeneratorParams {
+  prompt: string
+  negativePrompt: string
+  size: ImageSize
+  quality: ImageQuality
+  style: ImageStyle
+  count: number
+}
+
+export const MAX_IMAGE_COUNT = 10
+
+export const defaultGeneratorParams: GeneratorParams = {
+  prompt: '',
+  negativePrompt: '',
+  size: '1024x1024',
+  quality: 'high',
+  style: 'natural',
+  count: 1
+}
+
+function pick<T extends string>(value: string | null, options: readonly T[], fallback: T): T {
+  return options.find((option) => option === value) ?? fallback
+}
+
+/**
+ * Reads generator params from a query string. Missing or unknown values
+ * fall back to `defaults`, e.g. the user's generator settings.
+ */
+export function parseGeneratorParams(
+  search: URLSearchParams,
+  defaults: GeneratorParams = defaultGeneratorParams
+): GeneratorParams {
+  const count = Number.parseInt(search.get('count') ?? '', 10)
+  return {
+    prompt: search.get('prompt') ?? defaults.prompt,
+    negativePrompt: search.get('negative') ?? defaults.negativePrompt,
+    size: pick(search.get('size'), imageSizes, defaults.size),
+    quality: pick(search.get('quality'), imageQualities, defaults.quality),
+    style: pick(search.get('style'), imageStyles, defaults.style),
+    count: Number.isNaN(count)
+      ? defaults.count
+      : Math.min(MAX_IMAGE_COUNT, Math.max(1, count))
+  }
+}
+
+/**
+ * Encodes generator params. Every setting is written out, so a link
+ * reproduces the same setup whatever the opener's own defaults are.
+ */
+export function toGeneratorSearch(params: GeneratorParams): URLSearchParams {
+  const search = new URLSearchParams()
+  if (params.prompt) {
+    search.set('prompt', params.prompt)
+  }
+  if (params.negativePrompt) {
+    search.set('negative', params.negativePrompt)
+  }
+  search.set('size', params.size)
+  search.set('quality', params.quality)
+  search.set('style', params.style)
+  search.set('count', String(params.count))
+  return search
+}
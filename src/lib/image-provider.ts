@@ -0,0 +1,108 @@
+import { blinkImageProvider } from './providers/blink'
+import { localImageProvider } from './providers/local'
+import { withRateLimit } from './rate-limit'
+
+export const imageSizes = ['1024x1024', '1792x1024', '1024x1792'] as const
+export const imageQualities = ['auto', 'low', 'medium', 'high'] as const
+export const imageStyles = ['natural', 'vivid'] as const
+
+export type ImageSize = typeof imageSizes[number]
+export type ImageQuality = typeof imageQualities[number]
+export type ImageStyle = typeof imageStyles[number]
+
+/** `value` when it is one of `options`, e.g. a size saved by an older version that may no longer be offered */
+export function pickOption<T extends string>(options: readonly T[], value: string | undefined): T | undefined {
+  return options.find((option) => option === value)
+}
+
+export interface GenerateImageOptions {
+  prompt: string
+  /** Things the image should not contain; providers without native support fold it into the prompt */
+  negativePrompt?: string
+  size?: ImageSize
+  quality?: ImageQuality
+  style?: ImageStyle
+  n?: number
+  signal?: AbortSignal
+}
+
+export interface ModifyImageOptions {
+  /** Publicly reachable URLs of the source images */
+  images: string[]
+  prompt: string
+  negativePrompt?: string
+  size?: ImageSize
+  quality?: ImageQuality
+  n?: number
+  signal?: AbortSignal
+}
+
+export interface UploadOptions {
+  upsert?: boolean
+  onProgress?: (percent: number) => void
+}
+
+/** How the backend was asked for an image, as far as the provider can tell */
+export interface ProviderRequestInfo {
+  model?: string
+  /** The prompt exactly as sent, after any composition by the provider */
+  prompt: string
+  seed?: number
+  /** Backend request id, or a client-side one when the backend reports none */
+  requestId?: string
+}
+
+export interface ProviderImage {
+  url: string
+  request: ProviderRequestInfo
+}
+
+export interface ImageProvider {
+  id: string
+  name: string
+  generateImage(options: GenerateImageOptions): Promise<ProviderImage[]>
+  modifyImage(options: ModifyImageOptions): Promise<ProviderImage[]>
+  upload(file: File | Blob, path: string, options?: UploadOptions): Promise<{ url: string }>
+}
+
+export const imageProviders: ImageProvider[] = [blinkImageProvider, localImageProvider]
+
+const STORAGE_KEY = 'image-provider'
+
+function getInitialProvider(): ImageProvider {
+  let requested: string | null | undefined = import.meta.env.VITE_IMAGE_PROVIDER
+  try {
+    requested = localStorage.getItem(STORAGE_KEY) ?? requested
+  } catch {
+    // Ignore storage access errors and fall back to the build default
+  }
+  return imageProviders.find((provider) => provider.id === requested) ?? blinkImageProvider
+}
+
+// Every tool gets its provider from here, so this is where the request
+// budget they share is applied
+function withRequestBudget(provider: ImageProvider): ImageProvider {
+  return {
+    ...provider,
+    generateImage: (options) => withRateLimit(() => provider.generateImage(options), options.signal),
+    modifyImage: (options) => withRateLimit(() => provider.modifyImage(options), options.signal)
+  }
+}
+
+let activeProvider: ImageProvider | null = null
+
+export function getImageProvider(): ImageProvider {
+  if (!activeProvider) {
+    activeProvider = withRequestBudget(getInitialProvider())
+  }
+  return activeProvider
+}
+
+export function setImageProvider(id: string) {
+  const provider = imageProviders.find((p) => p.id === id)
+  if (!provider) {
+    throw new Error(`Unknown image provider: ${id}`)
+  }
+  activeProvider = withRequestBudget(provider)
+  localStorage.setItem(STORAGE_KEY, id)
+}
@@ -0,0 +1,324 @@
+import { createStore } from './store'
+import { estimateLatency, recordLatency } from './latency'
+import type { ToolId } from './tools'
+
+export type JobKind = 'generate' | 'modify' | 'upload' | 'describe'
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+export type JobPhase = 'queued' | 'uploading' | 'generating' | 'downloading'
+
+export interface JobPhaseRecord {
+  phase: JobPhase
+  label: string
+  startedAt: Date
+  finishedAt?: Date
+}
+
+export interface Job {
+  id: string
+  kind: JobKind
+  /** Id of the tool that started the job */
+  tool: ToolId
+  label: string
+  status: JobStatus
+  /** Progress of the current phase, 0-100 */
+  progress: number
+  phase: JobPhase
+  phaseLabel: string
+  phaseStartedAt: Date
+  /** Learned duration of the current phase, when it has no progress of its own */
+  expectedMs?: number
+  phases: JobPhaseRecord[]
+  error?: string
+  createdAt: Date
+  startedAt?: Date
+  finishedAt?: Date
+}
+
+export interface JobPhaseOptions {
+  label?: string
+  /**
+   * Latency history key for phases that report no progress. Progress is then
+   * estimated from past durations and the actual duration is recorded.
+   */
+  latencyKey?: string
+}
+
+export interface JobContext {
+  signal: AbortSignal
+  setProgress: (progress: number) => void
+  setPhase: (phase: JobPhase, options?: JobPhaseOptions) => void
+}
+
+export interface JobRequest<T> {
+  kind: JobKind
+  tool: ToolId
+  label: string
+  run: (context: JobContext) => Promise<T>
+}
+
+export class JobCancelledError extends Error {
+  constructor(message = 'The job was cancelled') {
+    super(message)
+    this.name = 'JobCancelledError'
+  }
+}
+
+export function isCancellation(error: unknown) {
+  return error instanceof JobCancelledError ||
+    (error instanceof DOMException && error.name === 'AbortError')
+}
+
+const phaseLabels: Record<JobPhase, string> = {
+  queued: 'Waiting in queue',
+  uploading: 'Uploading',
+  generating: 'Generating',
+  downloading: 'Downloading result'
+}
+
+const startPhases: Record<JobKind, JobPhase> = {
+  generate: 'generating',
+  modify: 'generating',
+  upload: 'uploading',
+  describe: 'generating'
+}
+
+// Estimated progress stops short of 100 until the phase actually ends
+const MAX_ESTIMATED_PROGRESS = 95
+const TICK_INTERVAL_MS = 250
+
+const concurrencyLimits: Record<JobKind, number> = {
+  generate: 2,
+  modify: 2,
+  upload: 3,
+  describe: 2
+}
+
+interface Entry {
+  job: Job
+  controller: AbortController
+  run: (context: JobContext) => Promise<unknown>
+  latencyKey?: string
+  /** Whether the current phase is the placeholder set when the job started */
+  isStartPhase?: boolean
+  resolve: (value: unknown) => void
+  reject: (reason: unknown) => void
+}
+
+const entries: Entry[] = []
+
+export const jobsStore = createStore<Job[]>([])
+
+let count = 0
+
+function genId() {
+  count = (count + 1) % Number.MAX_SAFE_INTEGER
+  return `job-${Date.now()}-${count}`
+}
+
+function emit() {
+  jobsStore.set(entries.map((entry) => entry.job))
+}
+
+function update(entry: Entry, changes: Partial<Job>) {
+  entry.job = { ...entry.job, ...changes }
+  emit()
+}
+
+let ticker: ReturnType<typeof setInterval> | null = null
+
+function tick() {
+  const now = Date.now()
+  let estimating = false
+  for (const entry of entries) {
+    const { job } = entry
+    if (job.status !== 'running' || !job.expectedMs) continue
+    estimating = true
+    const elapsed = now - job.phaseStartedAt.getTime()
+    entry.job = {
+      ...job,
+      progress: Math.min(MAX_ESTIMATED_PROGRESS, (elapsed / job.expectedMs) * 100)
+    }
+  }
+
+  if (estimating) {
+    emit()
+  } else if (ticker) {
+    clearInterval(ticker)
+    ticker = null
+  }
+}
+
+/** Closes the current phase, recording its duration when it was estimated */
+function endPhase(entry: Entry, succeeded: boolean): JobPhaseRecord[] {
+  const finishedAt = new Date()
+  if (succeeded && entry.latencyKey) {
+    recordLatency(entry.latencyKey, finishedAt.getTime() - entry.job.phaseStartedAt.getTime())
+  }
+  entry.latencyKey = undefined
+  return entry.job.phases.map((record, index) =>
+    index === entry.job.phases.length - 1 && !record.finishedAt ? { ...record, finishedAt } : record
+  )
+}
+
+function setPhase(entry: Entry, phase: JobPhase, { label, latencyKey }: JobPhaseOptions = {}) {
+  // The runner's first phase replaces the matching placeholder. Otherwise,
+  // re-entering the same phase means the previous attempt did not complete,
+  // e.g. a failed batch item, so its duration is not a latency sample.
+  const phases = entry.isStartPhase && phase === entry.job.phase
+    ? entry.job.phases.slice(0, -1)
+    : endPhase(entry, phase !== entry.job.phase)
+  entry.isStartPhase = false
+  const startedAt = new Date()
+  const phaseLabel = label ?? phaseLabels[phase]
+  entry.latencyKey = latencyKey
+  update(entry, {
+    phase,
+    phaseLabel,
+    phaseStartedAt: startedAt,
+    progress: 0,
+    expectedMs: latencyKey ? estimateLatency(latencyKey) : undefined,
+    phases: [...phases, { phase, label: phaseLabel, startedAt }]
+  })
+  if (latencyKey && !ticker) {
+    ticker = setInterval(tick, TICK_INTERVAL_MS)
+  }
+}
+
+function isFinished(status: JobStatus) {
+  return status === 'succeeded' || status === 'failed' || status === 'cancelled'
+}
+
+function pump() {
+  for (const kind of Object.keys(concurrencyLimits) as JobKind[]) {
+    let running = entries.filter((entry) => entry.job.kind === kind && entry.job.status === 'running').length
+    for (const entry of entries) {
+      if (running >= concurrencyLimits[kind]) break
+      if (entry.job.kind === kind && entry.job.status === 'queued') {
+        running++
+        start(entry)
+      }
+    }
+  }
+}
+
+async function start(entry: Entry) {
+  update(entry, { status: 'running', startedAt: new Date() })
+  setPhase(entry, startPhases[entry.job.kind])
+  entry.isStartPhase = true
+  const context: JobContext = {
+    signal: entry.controller.signal,
+    setProgress: (progress) => {
+      if (entry.job.status === 'running') {
+        update(entry, { progress: Math.max(0, Math.min(100, progress)) })
+      }
+    },
+    setPhase: (phase, options) => {
+      if (entry.job.status === 'running') {
+        setPhase(entry, phase, options)
+      }
+    }
+  }
+
+  try {
+    const result = await entry.run(context)
+    if (entry.controller.signal.aborted) {
+      throw new JobCancelledError()
+    }
+    update(entry, {
+      status: 'succeeded',
+      progress: 100,
+      expectedMs: undefined,
+      phases: endPhase(entry, true),
+      finishedAt: new Date()
+    })
+    entry.resolve(result)
+  } catch (error) {
+    const phases = endPhase(entry, false)
+    if (entry.controller.signal.aborted || isCancellation(error)) {
+      update(entry, { status: 'cancelled', expectedMs: undefined, phases, finishedAt: new Date() })
+      entry.reject(error instanceof JobCancelledError ? error : new JobCancelledError())
+    } else {
+      update(entry, {
+        status: 'failed',
+        expectedMs: undefined,
+        phases,
+        error: error instanceof Error ? error.message : String(error),
+        finishedAt: new Date()
+      })
+      entry.reject(error)
+    }
+  } finally {
+    pump()
+  }
+}
+
+/**
+ * Queues work outside the React tree, so it keeps running when the tool
+ * that started it unmounts. The returned promise settles with the job.
+ */
+export function enqueueJob<T>(request: JobRequest<T>): { id: string; promise: Promise<T> } {
+  const id = genId()
+  const createdAt = new Date()
+  const promise = new Promise<T>((resolve, reject) => {
+    entries.unshift({
+      job: {
+        id,
+        kind: request.kind,
+        tool: request.tool,
+        label: request.label,
+        status: 'queued',
+        progress: 0,
+        phase: 'queued',
+        phaseLabel: phaseLabels.queued,
+        phaseStartedAt: createdAt,
+        phases: [{ phase: 'queued', label: phaseLabels.queued, startedAt: createdAt }],
+        createdAt
+      },
+      controller: new AbortController(),
+      run: request.run,
+      resolve: resolve as (value: unknown) => void,
+      reject
+    })
+  })
+  emit()
+  pump()
+  return { id, promise }
+}
+
+export function cancelJob(id: string) {
+  const entry = entries.find((e) => e.job.id === id)
+  if (!entry || isFinished(entry.job.status)) return
+
+  if (entry.job.status === 'queued') {
+    update(entry, { status: 'cancelled', phases: endPhase(entry, false), finishedAt: new Date() })
+    entry.reject(new JobCancelledError())
+  } else {
+    entry.controller.abort()
+  }
+}
+
+export function clearFinishedJobs() {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (isFinished(entries[i].job.status)) {
+      entries.splice(i, 1)
+    }
+  }
+  emit()
+}
+
+export function isJobActive(job: Job) {
+  return job.status === 'queued' || job.status === 'running'
+}
+
+/** Milliseconds left in the current phase, or undefined when unknown */
+export function getJobEta(job: Job, now = Date.now()): number | undefined {
+  if (job.status !== 'running') return undefined
+  const elapsed = now - job.phaseStartedAt.getTime()
+  if (job.expectedMs) {
+    return Math.max(0, job.expectedMs - elapsed)
+  }
+  if (job.progress > 0 && job.progress < 100) {
+    return (elapsed * (100 - job.progress)) / job.progress
+  }
+  return undefined
+}
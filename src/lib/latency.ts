@@ -0,0 +1,59 @@
+// Rolling per-key averages of how long the image service takes, used to
+// estimate progress for phases that do not report any on their own. Keys
+// combine the tool and quality level, e.g. `generator:high`.
+
+interface LatencyStat {
+  averageMs: number
+  samples: number
+}
+
+const STORAGE_KEY = 'latency-stats'
+const DEFAULT_LATENCY_MS = 20000
+// Weight of the newest sample in the exponential moving average
+const SMOOTHING = 0.3
+
+let stats: Record<string, LatencyStat> | null = null
+
+function getStats(): Record<string, LatencyStat> {
+  if (!stats) {
+    try {
+      stats = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}')
+    } catch {
+      stats = {}
+    }
+  }
+  return stats!
+}
+
+export function latencyKey(tool: string, quality = 'auto') {
+  return `${tool}:${quality}`
+}
+
+export function estimateLatency(key: string): number {
+  const current = getStats()
+  if (current[key]) return current[key].averageMs
+
+  // Fall back to the average across the tool's other quality levels
+  const tool = key.split(':')[0]
+  const related = Object.entries(current).filter(([k]) => k.startsWith(`${tool}:`))
+  if (related.length > 0) {
+    return related.reduce((sum, [, stat]) => sum + stat.averageMs, 0) / related.length
+  }
+  return DEFAULT_LATENCY_MS
+}
+
+export function recordLatency(key: string, durationMs: number) {
+  const current = getStats()
+  const previous = current[key]
+  current[key] = previous
+    ? {
+        averageMs: previous.averageMs * (1 - SMOOTHING) + durationMs * SMOOTHING,
+        samples: previous.samples + 1
+      }
+    : { averageMs: durationMs, samples: 1 }
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(current))
+  } catch (error) {
+    console.error('Error saving latency stats:', error)
+  }
+}
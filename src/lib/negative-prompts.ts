@@ -0,0 +1,95 @@
+import { z } from 'zod'
+import { createStore } from './store'
+
+export interface NegativePromptPreset {
+  id: string
+  name: string
+  text: string
+  /** Built-in presets ship with the app and cannot be deleted */
+  builtIn?: boolean
+}
+
+export const builtInNegativePrompts: NegativePromptPreset[] = [
+  {
+    id: 'builtin-text',
+    name: 'No text or watermarks',
+    text: 'text, letters, captions, watermark, signature, logo',
+    builtIn: true
+  },
+  {
+    id: 'builtin-anatomy',
+    name: 'Clean anatomy',
+    text: 'extra fingers, extra limbs, deformed hands, distorted face',
+    builtIn: true
+  },
+  {
+    id: 'builtin-quality',
+    name: 'No artifacts',
+    text: 'blurry, low resolution, jpeg artifacts, noise, oversaturated',
+    builtIn: true
+  }
+]
+
+const STORAGE_KEY = 'negative-prompt-presets'
+
+const presetSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  text: z.string().min(1)
+})
+
+function loadPresets(): NegativePromptPreset[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
+    if (!Array.isArray(stored)) return []
+    // Skip entries that no longer parse instead of dropping every preset
+    return stored.flatMap((entry) => {
+      const result = presetSchema.safeParse(entry)
+      return result.success ? [result.data] : []
+    })
+  } catch {
+    return []
+  }
+}
+
+/** Presets saved by the user, in the order they were saved */
+export const negativePromptPresetsStore = createStore<NegativePromptPreset[]>(loadPresets())
+
+function persist(presets: NegativePromptPreset[]) {
+  negativePromptPresetsStore.set(presets)
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets))
+  } catch (error) {
+    console.error('Error saving negative prompt presets:', error)
+  }
+}
+
+/** Saves `text` under `name`, replacing the text of a preset with the same name */
+export function saveNegativePromptPreset(name: string, text: string): NegativePromptPreset {
+  const presets = negativePromptPresetsStore.get()
+  const existing = presets.find((preset) => preset.name.toLowerCase() === name.trim().toLowerCase())
+  const preset: NegativePromptPreset = {
+    id: existing?.id ?? `preset-${Date.now()}`,
+    name: existing?.name ?? name.trim(),
+    text: text.trim()
+  }
+  persist(existing
+    ? presets.map((p) => (p.id === existing.id ? preset : p))
+    : [...presets, preset])
+  return preset
+}
+
+export function deleteNegativePromptPreset(id: string) {
+  persist(negativePromptPresetsStore.get().filter((preset) => preset.id !== id))
+}
+
+/**
+ * Adds a preset's terms to a negative prompt, leaving it unchanged when the
+ * terms are already there, so presets can be combined.
+ */
+export function applyNegativePromptPreset(current: string, preset: NegativePromptPreset): string {
+  const trimmed = current.trim().replace(/,\s*$/, '')
+  if (!trimmed) return preset.text
+  if (trimmed.includes(preset.text)) return trimmed
+  return `${trimmed}, ${preset.text}`
+}
@@ -0,0 +1,67 @@
+import { getImageProvider, type ImageQuality } from './image-provider'
+import { enqueueJob } from './jobs'
+import { latencyKey } from './latency'
+import { fetchWithProgress } from './download'
+import { createProvenance, type Provenance } from './provenance'
+import type { ToolId } from './tools'
+
+export interface ProcessImageRequest {
+  /** Id of the tool running the request, used to group its jobs */
+  tool: ToolId
+  file: File
+  /** Storage folder the original is uploaded to, under a fresh id so same-named files never overwrite each other */
+  folder: string
+  prompt: string
+  quality?: ImageQuality
+  /** Tool settings behind the prompt, kept in the result's provenance */
+  params?: Pick<Provenance['params'], 'scale' | 'mode'>
+}
+
+/**
+ * Uploads a file and runs it through the modify endpoint as two queued jobs,
+ * so both steps show up in the jobs drawer and can be cancelled. The result
+ * is downloaded as part of the second job and returned with its URL and
+ * provenance.
+ */
+export async function processImage({ tool, file, folder, prompt, quality = 'high', params }: ProcessImageRequest) {
+  const { url: originalUrl } = await enqueueJob({
+    kind: 'upload',
+    tool,
+    label: `Upload: ${file.name}`,
+    run: ({ setProgress }) => getImageProvider().upload(
+      file,
+      `${folder}/originals/${crypto.randomUUID()}-${file.name}`,
+      { upsert: true, onProgress: setProgress }
+    )
+  }).promise
+
+  return enqueueJob({
+    kind: 'modify',
+    tool,
+    label: `Process: ${file.name}`,
+    run: async ({ signal, setPhase, setProgress }) => {
+      setPhase('generating', { label: 'Processing image', latencyKey: latencyKey(tool, quality) })
+      const provider = getImageProvider()
+      const startedAt = performance.now()
+      const [result] = await provider.modifyImage({
+        images: [originalUrl],
+        prompt,
+        quality,
+        n: 1,
+        signal
+      })
+      const provenance = createProvenance(provider, result, {
+        tool,
+        operation: 'modify',
+        prompt,
+        params: { quality, n: 1, ...params },
+        latencyMs: Math.round(performance.now() - startedAt),
+        sourceImages: [originalUrl]
+      })
+
+      setPhase('downloading')
+      const blob = await fetchWithProgress(result.url, { signal, onProgress: setProgress })
+      return { originalUrl, resultUrl: result.url, blob, provenance }
+    }
+  }).promise
+}
@@ -0,0 +1,73 @@
+import { getTextProvider } from './text-provider'
+
+export type EnhanceStrategyId = 'photographic' | 'illustration' | 'minimal'
+
+export interface EnhanceStrategy {
+  id: EnhanceStrategyId
+  name: string
+  description: string
+  /** How the model should rewrite the prompt */
+  instructions: string
+  /** Kinds of detail to draw on, which also guide the offline text model */
+  hints: string[]
+}
+
+export const enhanceStrategies: EnhanceStrategy[] = [
+  {
+    id: 'photographic',
+    name: 'Photographic',
+    description: 'Camera, lens and natural lighting detail',
+    instructions: 'Describe it as a photograph: the shot and framing, the camera and lens, the lighting and time of day, and realistic textures.',
+    hints: ['professional photograph', 'natural light', '50mm lens', 'shallow depth of field', 'rule of thirds composition', 'sharp focus', 'realistic textures']
+  },
+  {
+    id: 'illustration',
+    name: 'Illustration',
+    description: 'Art medium, palette and composition',
+    instructions: 'Describe it as an illustration: the medium and technique, the color palette, the composition and the mood.',
+    hints: ['digital illustration', 'clean line work', 'vibrant color palette', 'dynamic composition', 'soft cel shading', 'whimsical mood', 'detailed background']
+  },
+  {
+    id: 'minimal',
+    name: 'Minimal',
+    description: 'A short, clear prompt with one strong idea',
+    instructions: 'Keep it short: clarify the subject, then add at most a few words on composition, light and style. Remove anything vague or redundant.',
+    hints: ['minimalist composition', 'plain background', 'soft light', 'centered subject']
+  }
+]
+
+export function getEnhanceStrategy(id: EnhanceStrategyId) {
+  return enhanceStrategies.find((strategy) => strategy.id === id) ?? enhanceStrategies[0]
+}
+
+const SYSTEM = [
+  'You rewrite prompts for an image generation model.',
+  'Keep the subject and every detail the user gave, and add what is missing about composition, lighting and style.',
+  'Answer with the rewritten prompt only: one paragraph, no quotes, no explanations, at most 80 words.'
+].join(' ')
+
+// Models sometimes label or quote their answer despite the instructions
+function cleanResponse(text: string) {
+  const firstParagraph = text.trim().split(/\n\s*\n/)[0] ?? ''
+  return firstParagraph
+    .replace(/^(rewritten |enhanced )?prompt:\s*/i, '')
+    .replace(/^["'“](.*)["'”]$/s, '$1')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/** Rewrites a prompt with the text model, adding detail in the way the strategy asks for */
+export async function enhancePrompt(prompt: string, strategyId: EnhanceStrategyId, signal?: AbortSignal): Promise<string> {
+  const strategy = getEnhanceStrategy(strategyId)
+  const text = await getTextProvider().generateText({
+    system: `${SYSTEM} ${strategy.instructions}`,
+    prompt: `Prompt: ${prompt.trim()}\nHints: ${strategy.hints.join(', ')}`,
+    temperature: 0.7,
+    signal
+  })
+  const enhanced = cleanResponse(text)
+  if (!enhanced) {
+    throw new Error('The text model returned an empty prompt')
+  }
+  return enhanced
+}
@@ -0,0 +1,191 @@
+import { z } from 'zod'
+import { imageQualities, imageSizes, imageStyles } from './image-provider'
+
+// A prompt grid compares one prompt across one or two parameter axes. Cells
+// are listed row by row, so cell (x, y) is at index y * columns + x.
+
+export const gridParams = ['prompt', 'size', 'quality', 'style'] as const
+
+export type GridParam = typeof gridParams[number]
+
+const gridAxisSchema = z.object({
+  param: z.enum(gridParams),
+  // Fragments added to the prompt for the `prompt` axis, otherwise parameter values
+  values: z.array(z.string()).min(1)
+})
+
+export const promptGridSchema = z.object({
+  x: gridAxisSchema,
+  y: gridAxisSchema.optional()
+})
+
+export type GridAxis = z.infer<typeof gridAxisSchema>
+export type PromptGrid = z.infer<typeof promptGridSchema>
+
+export const gridParamLabels: Record<GridParam, string> = {
+  prompt: 'Prompt fragment',
+  size: 'Size',
+  quality: 'Quality',
+  style: 'Style'
+}
+
+/** The values a parameter can take, or null for free text */
+export function getGridParamOptions(param: GridParam): readonly string[] | null {
+  switch (param) {
+    case 'size': return imageSizes
+    case 'quality': return imageQualities
+    case 'style': return imageStyles
+    default: return null
+  }
+}
+
+/** Values an axis starts with: every option, or no fragments yet */
+export function getDefaultAxis(param: GridParam): GridAxis {
+  return { param, values: [...(getGridParamOptions(param) ?? [])] }
+}
+
+/** Styles across, qualities down */
+export const defaultPromptGrid: PromptGrid = {
+  x: getDefaultAxis('style'),
+  y: { param: 'quality', values: ['low', 'medium', 'high'] }
+}
+
+export interface GridCell {
+  x: number
+  y: number
+  prompt: string
+  size: string
+  quality: string
+  style: string
+  /** The axis values of the cell, e.g. `style: vivid, quality: low` */
+  label: string
+}
+
+export function getGridShape(grid: PromptGrid) {
+  return { columns: grid.x.values.length, rows: grid.y?.values.length ?? 1 }
+}
+
+/**
+ * Every cell of the grid, row by row. Parameters that no axis varies come
+ * from `defaults`; prompt fragments are added to the base prompt.
+ */
+export function getGridCells(
+  basePrompt: string,
+  grid: PromptGrid,
+  defaults: { size: string; quality: string; style: string }
+): GridCell[] {
+  const { columns, rows } = getGridShape(grid)
+  const cells: GridCell[] = []
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < columns; x++) {
+      const picks = [{ axis: grid.x, value: grid.x.values[x] }]
+      if (grid.y) picks.push({ axis: grid.y, value: grid.y.values[y] })
+
+      const cell = { ...defaults, prompt: basePrompt.trim() }
+      for (const { axis, value } of picks) {
+        if (axis.param === 'prompt') {
+          cell.prompt = [cell.prompt, value.trim()].filter(Boolean).join(', ')
+        } else {
+          cell[axis.param] = value
+        }
+      }
+      cells.push({
+        ...cell,
+        x,
+        y,
+        label: picks.map(({ axis, value }) => `${axis.param}: ${value}`).join(', ')
+      })
+    }
+  }
+  return cells
+}
+
+const CELL_SIZE = 256
+const GAP = 8
+const PADDING = 16
+const ROW_HEADER_WIDTH = 160
+const COLUMN_HEADER_HEIGHT = 56
+const FONT = '14px system-ui, sans-serif'
+const LINE_HEIGHT = 18
+
+// Wraps text to the width, cutting it off with an ellipsis after `maxLines`
+function wrapText(ctx: CanvasRenderingContext2D, text: string, width: number, maxLines: number) {
+  const lines: string[] = []
+  let line = ''
+  for (const word of text.split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word
+    if (ctx.measureText(candidate).width <= width || !line) {
+      line = candidate
+    } else {
+      lines.push(line)
+      line = word
+    }
+  }
+  if (line) lines.push(line)
+  if (lines.length > maxLines) {
+    lines.length = maxLines
+    let last = lines[maxLines - 1]
+    while (last && ctx.measureText(`${last}…`).width > width) last = last.slice(0, -1)
+    lines[maxLines - 1] = `${last}…`
+  }
+  return lines
+}
+
+function drawLabel(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, width: number, height: number) {
+  const lines = wrapText(ctx, text, width, Math.max(1, Math.floor(height / LINE_HEIGHT)))
+  const top = y + (height - lines.length * LINE_HEIGHT) / 2 + LINE_HEIGHT / 2
+  lines.forEach((line, i) => ctx.fillText(line, x + width / 2, top + i * LINE_HEIGHT))
+}
+
+/**
+ * Draws the grid as one PNG with the axis values as row and column headers.
+ * Images keep their aspect ratio within square cells; cells without an
+ * image are left blank.
+ */
+export async function renderGridComposite(grid: PromptGrid, images: Array<Blob | null>): Promise<Blob> {
+  const { columns, rows } = getGridShape(grid)
+  const rowHeader = grid.y ? ROW_HEADER_WIDTH + GAP : 0
+  const canvas = document.createElement('canvas')
+  canvas.width = PADDING * 2 + rowHeader + columns * CELL_SIZE + (columns - 1) * GAP
+  canvas.height = PADDING * 2 + COLUMN_HEADER_HEIGHT + GAP + rows * CELL_SIZE + (rows - 1) * GAP
+  const ctx = canvas.getContext('2d')!
+
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+  ctx.font = FONT
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillStyle = '#111827'
+
+  const cellLeft = (x: number) => PADDING + rowHeader + x * (CELL_SIZE + GAP)
+  const cellTop = (y: number) => PADDING + COLUMN_HEADER_HEIGHT + GAP + y * (CELL_SIZE + GAP)
+
+  grid.x.values.forEach((value, x) => {
+    drawLabel(ctx, value, cellLeft(x), PADDING, CELL_SIZE, COLUMN_HEADER_HEIGHT)
+  })
+  grid.y?.values.forEach((value, y) => {
+    drawLabel(ctx, value, PADDING, cellTop(y), ROW_HEADER_WIDTH, CELL_SIZE)
+  })
+
+  for (const [index, blob] of images.entries()) {
+    if (!blob) continue
+    const bitmap = await createImageBitmap(blob)
+    const scale = Math.min(CELL_SIZE / bitmap.width, CELL_SIZE / bitmap.height)
+    const width = bitmap.width * scale
+    const height = bitmap.height * scale
+    const x = index % columns
+    const y = Math.floor(index / columns)
+    ctx.drawImage(
+      bitmap,
+      cellLeft(x) + (CELL_SIZE - width) / 2,
+      cellTop(y) + (CELL_SIZE - height) / 2,
+      width,
+      height
+    )
+    bitmap.close()
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((result) => result ? resolve(result) : reject(new Error('Could not encode the grid')), 'image/png')
+  })
+}
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  countTemplateExpansions,
+  expandTemplate,
+  exportPromptTemplates,
+  fillTemplate,
+  getTemplatePlaceholders,
+  importPromptTemplates,
+  openPromptTemplates,
+  promptTemplatesStore,
+  savePromptTemplate,
+  syncTemplateVariables,
+  type PromptTemplate
+} from './prompt-templates'
+
+const template: PromptTemplate = {
+  id: 'template-1',
+  name: 'Product shot',
+  text: 'a {color} {product} on a {surface}',
+  variables: [
+    { name: 'color', defaultValue: '', choices: ['red', 'blue'] },
+    { name: 'product', defaultValue: 'mug', choices: [] },
+    { name: 'surface', defaultValue: '', choices: ['table', 'shelf', 'rug'] }
+  ],
+  updatedAt: 1
+}
+
+describe('template text', () => {
+  it('finds each placeholder once, in order of first use', () => {
+    expect(getTemplatePlaceholders('{a} and {b} then {a}, not {1x} or { c }')).toEqual(['a', 'b'])
+  })
+
+  it('keeps existing declarations and drops unused ones', () => {
+    expect(syncTemplateVariables('a {product} with {logo}', template.variables)).toEqual([
+      { name: 'product', defaultValue: 'mug', choices: [] },
+      { name: 'logo', defaultValue: '', choices: [] }
+    ])
+  })
+
+  it('fills values, then defaults or first choices, and keeps the rest as written', () => {
+    const withUnknown = { ...template, text: `${template.text} by {artist}` }
+
+    expect(fillTemplate(withUnknown, { surface: 'rug' })).toBe('a red mug on a rug by {artist}')
+  })
+})
+
+describe('expandTemplate', () => {
+  it('gives every combination of the choices, the last variable changing fastest', () => {
+    const prompts = expandTemplate(template, { product: 'lamp' }).map((expansion) => expansion.prompt)
+
+    expect(prompts).toEqual([
+      'a red lamp on a table',
+      'a red lamp on a shelf',
+      'a red lamp on a rug',
+      'a blue lamp on a table',
+      'a blue lamp on a shelf',
+      'a blue lamp on a rug'
+    ])
+    expect(countTemplateExpansions(template)).toBe(6)
+  })
+
+  it('builds only up to the limit', () => {
+    const expansions = expandTemplate(template, {}, 2)
+
+    expect(expansions).toEqual([
+      { values: { color: 'red', product: 'mug', surface: 'table' }, prompt: 'a red mug on a table' },
+      { values: { color: 'red', product: 'mug', surface: 'shelf' }, prompt: 'a red mug on a shelf' }
+    ])
+  })
+
+  it('gives the filled template when nothing is enumerated', () => {
+    const freeText = { ...template, text: 'a {product}', variables: [template.variables[1]] }
+
+    expect(expandTemplate(freeText).map((expansion) => expansion.prompt)).toEqual(['a mug'])
+  })
+})
+
+describe('template library', () => {
+  let close: () => void
+
+  beforeEach(() => {
+    localStorage.clear()
+    close = openPromptTemplates('user-1')
+  })
+
+  afterEach(() => {
+    close()
+  })
+
+  it('keeps each user\'s templates under their own key', () => {
+    savePromptTemplate({ name: ' Product shot ', text: template.text, variables: template.variables })
+    close()
+
+    close = openPromptTemplates('user-2')
+    expect(promptTemplatesStore.get()).toEqual([])
+    close()
+
+    close = openPromptTemplates('user-1')
+    expect(promptTemplatesStore.get().map((t) => t.name)).toEqual(['Product shot'])
+  })
+
+  it('exports the library and imports it back, replacing templates with the same id', () => {
+    const saved = savePromptTemplate({ name: 'Product shot', text: template.text, variables: template.variables })
+    const exported = exportPromptTemplates()
+    savePromptTemplate({ ...saved, name: 'Renamed' })
+
+    const result = importPromptTemplates(exported)
+
+    expect(result).toEqual({ imported: 1, skipped: 0 })
+    expect(promptTemplatesStore.get().map((t) => t.name)).toEqual(['Product shot'])
+  })
+
+  it('skips templates that do not validate and rejects other documents', () => {
+    const document = JSON.stringify({ version: 1, templates: [template, { id: 'broken', name: '' }] })
+
+    expect(importPromptTemplates(document)).toEqual({ imported: 1, skipped: 1 })
+    expect(() => importPromptTemplates('{"templates":[]}')).toThrow('Not a prompt template export')
+  })
+})
@@ -0,0 +1,189 @@
+import { z } from 'zod'
+import { createStore } from './store'
+
+// Variables are written as {name} in the template text. Names are limited to
+// identifier characters so other uses of braces are left alone.
+const PLACEHOLDER = /\{([A-Za-z_]\w*)\}/g
+
+const templateVariableSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_]\w*$/),
+  defaultValue: z.string(),
+  // Allowed values; an empty list means the variable takes free text
+  choices: z.array(z.string())
+})
+
+const promptTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  text: z.string().min(1),
+  variables: z.array(templateVariableSchema),
+  updatedAt: z.number()
+})
+
+const EXPORT_VERSION = 1
+
+const templateExportSchema = z.object({
+  version: z.literal(EXPORT_VERSION),
+  templates: z.array(z.unknown())
+})
+
+export type TemplateVariable = z.infer<typeof templateVariableSchema>
+export type PromptTemplate = z.infer<typeof promptTemplateSchema>
+
+/** One way of filling in a template */
+export interface TemplateExpansion {
+  values: Record<string, string>
+  prompt: string
+}
+
+/** Variable names used in a template's text, in order of first use */
+export function getTemplatePlaceholders(text: string): string[] {
+  return [...new Set(Array.from(text.matchAll(PLACEHOLDER), (match) => match[1]))]
+}
+
+/**
+ * Declarations for every placeholder in `text`: existing declarations are
+ * kept, new placeholders get an empty one and unused ones are dropped.
+ */
+export function syncTemplateVariables(text: string, variables: TemplateVariable[]): TemplateVariable[] {
+  return getTemplatePlaceholders(text).map((name) =>
+    variables.find((variable) => variable.name === name) ?? { name, defaultValue: '', choices: [] }
+  )
+}
+
+/** Values a template starts out with: each variable's default, or its first choice */
+export function getDefaultTemplateValues(template: PromptTemplate): Record<string, string> {
+  return Object.fromEntries(template.variables.map((variable) => [
+    variable.name,
+    variable.defaultValue || variable.choices[0] || ''
+  ]))
+}
+
+/** Replaces placeholders with `values`; placeholders without a value are kept as written */
+export function fillTemplate(template: PromptTemplate, values: Record<string, string>): string {
+  const defaults = getDefaultTemplateValues(template)
+  return template.text.replace(PLACEHOLDER, (placeholder, name: string) => values[name] || defaults[name] || placeholder)
+}
+
+/** Number of prompts `expandTemplate` gives for a template */
+export function countTemplateExpansions(template: Pick<PromptTemplate, 'variables'>): number {
+  return template.variables.reduce((count, variable) => count * Math.max(1, variable.choices.length), 1)
+}
+
+/**
+ * Combinations of the template's enumerated choices, in order, up to
+ * `limit` of them; only those are built. Free-text variables are filled
+ * from `values`, falling back to their defaults.
+ */
+export function expandTemplate(template: PromptTemplate, values: Record<string, string> = {}, limit = Infinity): TemplateExpansion[] {
+  const base = { ...getDefaultTemplateValues(template), ...values }
+  const enumerated = template.variables.filter((variable) => variable.choices.length > 0)
+  return Array.from({ length: Math.min(limit, countTemplateExpansions(template)) }, (_, index) => {
+    const combination = { ...base }
+    // Read the index as digits of mixed radix, so the last variable changes fastest
+    for (let i = enumerated.length - 1, rest = index; i >= 0; i--) {
+      const { name, choices } = enumerated[i]
+      combination[name] = choices[rest % choices.length]
+      rest = Math.floor(rest / choices.length)
+    }
+    return { values: combination, prompt: fillTemplate(template, combination) }
+  })
+}
+
+// Templates belong to the signed-in user and are kept under a per-user key
+const STORAGE_KEY_PREFIX = 'prompt-templates'
+
+let storageKey: string | null = null
+
+/** The signed-in user's templates, most recently updated first */
+export const promptTemplatesStore = createStore<PromptTemplate[]>([])
+
+function sortTemplates(templates: PromptTemplate[]) {
+  return [...templates].sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+// Entries that no longer parse are skipped so one bad template does not hide the rest
+function parseTemplates(entries: unknown[]): { templates: PromptTemplate[]; skipped: number } {
+  const templates: PromptTemplate[] = []
+  for (const entry of entries) {
+    const result = promptTemplateSchema.safeParse(entry)
+    if (result.success) {
+      templates.push({
+        ...result.data,
+        variables: syncTemplateVariables(result.data.text, result.data.variables)
+      })
+    }
+  }
+  return { templates, skipped: entries.length - templates.length }
+}
+
+function readTemplates(key: string): PromptTemplate[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(key) || '[]')
+    return Array.isArray(stored) ? sortTemplates(parseTemplates(stored).templates) : []
+  } catch {
+    return []
+  }
+}
+
+function persist(templates: PromptTemplate[]) {
+  const sorted = sortTemplates(templates)
+  promptTemplatesStore.set(sorted)
+  if (!storageKey) return
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(sorted))
+  } catch (error) {
+    console.error('Error saving prompt templates:', error)
+  }
+}
+
+/**
+ * Loads a user's template library into the store. Returns a function that
+ * clears it again, e.g. when the user signs out.
+ */
+export function openPromptTemplates(userId: string) {
+  storageKey = `${STORAGE_KEY_PREFIX}:${userId}`
+  promptTemplatesStore.set(readTemplates(storageKey))
+  return () => {
+    storageKey = null
+    promptTemplatesStore.set([])
+  }
+}
+
+/** Adds a template or replaces the one with the same id */
+export function savePromptTemplate(template: Omit<PromptTemplate, 'id' | 'updatedAt'> & { id?: string }): PromptTemplate {
+  const saved: PromptTemplate = {
+    ...template,
+    id: template.id ?? `template-${Date.now()}`,
+    name: template.name.trim(),
+    variables: syncTemplateVariables(template.text, template.variables),
+    updatedAt: Date.now()
+  }
+  persist([saved, ...promptTemplatesStore.get().filter((t) => t.id !== saved.id)])
+  return saved
+}
+
+export function deletePromptTemplate(id: string) {
+  persist(promptTemplatesStore.get().filter((template) => template.id !== id))
+}
+
+/** The whole library as a JSON document that `importPromptTemplates` reads back */
+export function exportPromptTemplates(): string {
+  return JSON.stringify({ version: EXPORT_VERSION, templates: promptTemplatesStore.get() }, null, 2)
+}
+
+/**
+ * Merges templates from an exported JSON document into the library.
+ * Templates with an id that is already in the library replace it. Throws
+ * when the document is not a template export.
+ */
+export function importPromptTemplates(json: string): { imported: number; skipped: number } {
+  const result = templateExportSchema.safeParse(JSON.parse(json))
+  if (!result.success) {
+    throw new Error('Not a prompt template export')
+  }
+  const { templates, skipped } = parseTemplates(result.data.templates)
+  const ids = new Set(templates.map((template) => template.id))
+  persist([...templates, ...promptTemplatesStore.get().filter((template) => !ids.has(template.id))])
+  return { imported: templates.length, skipped }
+}
@@ -0,0 +1,58 @@
+import { z } from 'zod'
+import type { ImageProvider, ProviderImage } from './image-provider'
+
+// Everything needed to reproduce or audit a result. It is stored with the
+// gallery record, so changes follow the rules in ./asset-db.
+export const provenanceSchema = z.object({
+  // Id of the tool that produced the image, see ./tools
+  tool: z.string(),
+  operation: z.enum(['generate', 'modify']),
+  provider: z.string(),
+  model: z.string().optional(),
+  // The prompt as the tool built it, e.g. a batch's base prompt plus variation
+  prompt: z.string(),
+  negativePrompt: z.string().optional(),
+  // The prompt exactly as the backend received it
+  sentPrompt: z.string(),
+  params: z.object({
+    size: z.string().optional(),
+    quality: z.string().optional(),
+    style: z.string().optional(),
+    n: z.number().optional(),
+    scale: z.string().optional(),
+    mode: z.string().optional()
+  }),
+  seed: z.number().optional(),
+  requestId: z.string().optional(),
+  latencyMs: z.number(),
+  // Inputs of modify operations
+  sourceImages: z.array(z.string()).optional(),
+  // Gallery id of the image this one is a variation of, see ./variations
+  parentId: z.string().optional(),
+  batch: z.object({
+    basePrompt: z.string(),
+    variation: z.string(),
+    // 1-based position of the variation in its batch
+    index: z.number()
+  }).optional()
+})
+
+export type Provenance = z.infer<typeof provenanceSchema>
+
+export type ProvenanceDetails = Omit<Provenance, 'provider' | 'model' | 'sentPrompt' | 'seed' | 'requestId'>
+
+/** Combines what the tool asked for with what the provider reports about the request */
+export function createProvenance(
+  provider: ImageProvider,
+  image: ProviderImage,
+  details: ProvenanceDetails
+): Provenance {
+  return {
+    ...details,
+    provider: provider.id,
+    model: image.request.model,
+    sentPrompt: image.request.prompt,
+    seed: image.request.seed,
+    requestId: image.request.requestId
+  }
+}
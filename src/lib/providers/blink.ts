@@ -0,0 +1,72 @@
+import type { ImageGenerationResponse } from '@blinkdotnew/sdk'
+import { blink } from '../../blink/client'
+import type { ImageProvider, ProviderImage } from '../image-provider'
+import type { TextProvider } from '../text-provider'
+
+// The SDK pins this model for both endpoints and does not let callers pick
+const MODEL = 'gpt-image-1'
+
+function toImages(response: ImageGenerationResponse, prompt: string): ProviderImage[] {
+  // Responses carry no request id, so one is made up to tell calls apart
+  const request = { model: MODEL, prompt, requestId: crypto.randomUUID() }
+  const images = response.data
+    .map((img) => img.url ?? (img.b64_json ? `data:image/png;base64,${img.b64_json}` : undefined))
+    .filter((url): url is string => Boolean(url))
+    .map((url) => ({ url, request }))
+  if (images.length === 0) {
+    throw new Error('The image service returned no images')
+  }
+  return images
+}
+
+// The image endpoint has no negative prompt parameter, so exclusions are
+// spelled out at the end of the prompt instead
+function composePrompt(prompt: string, negativePrompt?: string) {
+  const exclusions = negativePrompt?.trim()
+  return exclusions ? `${prompt}\n\nAvoid: ${exclusions}` : prompt
+}
+
+export const blinkImageProvider: ImageProvider = {
+  id: 'blink',
+  name: 'Blink AI',
+
+  async generateImage({ prompt, negativePrompt, size, quality, style, n, signal }) {
+    // The image endpoint accepts `style` even though the SDK request type
+    // does not declare it, so the request is built outside the call.
+    const request = { prompt: composePrompt(prompt, negativePrompt), size, quality, style, n, signal }
+    return toImages(await blink.ai.generateImage(request), request.prompt)
+  },
+
+  async modifyImage({ images, prompt, negativePrompt, size, quality, n, signal }) {
+    const sentPrompt = composePrompt(prompt, negativePrompt)
+    const response = await blink.ai.modifyImage({ images, prompt: sentPrompt, size, quality, n, signal })
+    return toImages(response, sentPrompt)
+  },
+
+  async upload(file, path, options) {
+    const { publicUrl } = await blink.storage.upload(file, path, options)
+    return { url: publicUrl }
+  }
+}
+
+export const blinkTextProvider: TextProvider = {
+  id: 'blink',
+  name: 'Blink AI',
+
+  async generateText({ system, prompt, images = [], temperature, signal }) {
+    const { text } = await blink.ai.generateText({
+      messages: [
+        { role: 'system', content: system },
+        {
+          role: 'user',
+          content: images.length > 0
+            ? [{ type: 'text', text: prompt }, ...images.map((image) => ({ type: 'image' as const, image }))]
+            : prompt
+        }
+      ],
+      temperature,
+      signal
+    })
+    return text
+  }
+}
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { localTextProvider } from './local-text'
+
+async function settle<T>(promise: Promise<T>) {
+  await vi.runAllTimersAsync()
+  return promise
+}
+
+describe('localTextProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const request = {
+    system: 'Rewrite the prompt.',
+    prompt: 'Prompt: a red fox\nHints: golden hour, 35mm, shallow depth of field, soft light'
+  }
+
+  it('answers with the prompt followed by half of the hints, in order', async () => {
+    const text = await settle(localTextProvider.generateText(request))
+
+    const [subject, ...picked] = text.split(', ')
+    const hints = ['golden hour', '35mm', 'shallow depth of field', 'soft light']
+    expect(subject).toBe('a red fox')
+    expect(picked).toHaveLength(2)
+    const start = hints.indexOf(picked[0])
+    expect(picked[1]).toBe(hints[(start + 1) % hints.length])
+  })
+
+  it('gives the same text for the same request', async () => {
+    const first = await settle(localTextProvider.generateText(request))
+    const second = await settle(localTextProvider.generateText(request))
+
+    expect(second).toBe(first)
+  })
+
+  it('falls back to the whole request without a Prompt line', async () => {
+    const text = await settle(localTextProvider.generateText({ system: '', prompt: '  a red fox  ' }))
+
+    expect(text).toBe('a red fox')
+  })
+
+  it('describes attached images with Prompt and Tags lines', async () => {
+    const text = await settle(localTextProvider.generateText({
+      system: 'Describe the image.',
+      prompt: 'Hints: portrait, landscape',
+      images: ['https://example.com/photo.png']
+    }))
+
+    const [promptLine, tagsLine] = text.split('\n')
+    const tag = tagsLine.replace(/^Tags: /, '')
+    expect(['portrait', 'landscape']).toContain(tag)
+    expect(promptLine).toBe(`Prompt: an image, ${tag}`)
+  })
+
+  it('rejects with an AbortError when cancelled', async () => {
+    const controller = new AbortController()
+    const result = localTextProvider.generateText({ ...request, signal: controller.signal })
+    controller.abort()
+
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' })
+  })
+})
@@ -0,0 +1,58 @@
+import type { TextProvider } from '../text-provider'
+
+// Offline stand-in for a text model. It does not understand language: it
+// answers with the `Prompt:` line of the request plus some of the
+// comma-separated hints on its `Hints:` line. It cannot see images either,
+// so it describes attached ones with the hints alone, as `Prompt:` and
+// `Tags:` lines. The hints are picked by a hash of the request, so the same
+// request always gives the same text, which keeps demos and tests
+// reproducible.
+
+const SIMULATED_LATENCY_MS = 300
+
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'))
+      return
+    }
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(new DOMException('The operation was aborted.', 'AbortError'))
+    }, { once: true })
+  })
+}
+
+function readLine(text: string, label: string) {
+  const match = text.match(new RegExp(`^${label}:(.*)$`, 'im'))
+  return match ? match[1].trim() : ''
+}
+
+export const localTextProvider: TextProvider = {
+  id: 'local',
+  name: 'Local (offline)',
+
+  async generateText({ system, prompt, images = [], signal }) {
+    await wait(SIMULATED_LATENCY_MS, signal)
+    const hints = readLine(prompt, 'Hints').split(',').map((hint) => hint.trim()).filter(Boolean)
+    // Rotating by the hash keeps the hints in their given order
+    const start = hashString(`${system}|${prompt}|${images.join(',')}`) % Math.max(1, hints.length)
+    const picked = Array.from({ length: Math.ceil(hints.length / 2) }, (_, i) => hints[(start + i) % hints.length])
+
+    if (images.length > 0) {
+      return `Prompt: ${['an image', ...picked].join(', ')}\nTags: ${picked.join(', ')}`
+    }
+    const subject = readLine(prompt, 'Prompt') || prompt.trim()
+    return [subject, ...picked].join(', ')
+  }
+}
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { localImageProvider } from './local'
+
+// jsdom has no canvas, so the 2D context records what is drawn and
+// `toDataURL` hands the drawing back, which makes the artwork comparable
+function recordCanvas() {
+  let calls: string[] = []
+  const record = (entry: string) => {
+    calls.push(entry)
+  }
+  const ctx = new Proxy({}, {
+    get(_, key) {
+      if (key === 'measureText') return (text: string) => ({ width: text.length * 10 })
+      if (key === 'createLinearGradient') {
+        return (...args: unknown[]) => {
+          record(`gradient(${args.join(',')})`)
+          return { addColorStop: (...stop: unknown[]) => record(`stop(${stop.join(',')})`) }
+        }
+      }
+      return (...args: unknown[]) => record(`${String(key)}(${args.join(',')})`)
+    },
+    set(_, key, value) {
+      record(`${String(key)}=${value}`)
+      return true
+    }
+  })
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(ctx as CanvasRenderingContext2D)
+  vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockImplementation(function (this: HTMLCanvasElement) {
+    const drawing = calls.join(';')
+    calls = []
+    return `data:image/jpeg;${this.width}x${this.height};${drawing}`
+  })
+}
+
+// Source images either fail to load or load with the given dimensions
+function stubImageLoading(dimensions?: { width: number; height: number }) {
+  vi.stubGlobal('Image', class {
+    naturalWidth = dimensions?.width ?? 0
+    naturalHeight = dimensions?.height ?? 0
+    crossOrigin = ''
+    onload: (() => void) | null = null
+    onerror: (() => void) | null = null
+    set src(_url: string) {
+      setTimeout(() => (dimensions ? this.onload?.() : this.onerror?.()))
+    }
+  })
+}
+
+async function settle<T>(promise: Promise<T>) {
+  await vi.runAllTimersAsync()
+  return promise
+}
+
+describe('localImageProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    recordCanvas()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('gives the same images for the same request', async () => {
+    const options = { prompt: 'a red fox', size: '1024x1024', style: 'vivid', n: 2 } as const
+
+    const first = await settle(localImageProvider.generateImage(options))
+    const second = await settle(localImageProvider.generateImage(options))
+
+    expect(second).toEqual(first)
+    expect(first).toHaveLength(2)
+    expect(first[0].url).not.toBe(first[1].url)
+    expect(first[0].request).toMatchObject({ model: 'canvas-placeholder', prompt: 'a red fox' })
+  })
+
+  it('paints at the requested size and writes the prompt on the image', async () => {
+    const [image] = await settle(localImageProvider.generateImage({ prompt: 'a red fox', size: '1792x1024' }))
+
+    expect(image.url).toMatch(/^data:image\/jpeg;1792x1024;/)
+    expect(image.url).toContain('fillText(a red fox,')
+  })
+
+  it('changes the artwork with the negative prompt but keeps it without one', async () => {
+    const [plain] = await settle(localImageProvider.generateImage({ prompt: 'a red fox' }))
+    const [blank] = await settle(localImageProvider.generateImage({ prompt: 'a red fox', negativePrompt: '  ' }))
+    const [negative] = await settle(localImageProvider.generateImage({ prompt: 'a red fox', negativePrompt: 'snow' }))
+
+    expect(blank.url).toBe(plain.url)
+    expect(negative.url).not.toBe(plain.url)
+  })
+
+  it('rejects with an AbortError when cancelled', async () => {
+    const controller = new AbortController()
+    const result = localImageProvider.generateImage({ prompt: 'a red fox', signal: controller.signal })
+    controller.abort()
+
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' })
+  })
+
+  it('redraws a source image at its own size when no size is given', async () => {
+    stubImageLoading({ width: 640, height: 480 })
+
+    const [image] = await settle(localImageProvider.modifyImage({
+      images: ['https://example.com/source.png'],
+      prompt: 'as a watercolor'
+    }))
+
+    expect(image.url).toMatch(/^data:image\/jpeg;640x480;/)
+    expect(image.url).toContain('drawImage(')
+  })
+
+  it('falls back to generated artwork when the source does not load', async () => {
+    stubImageLoading()
+
+    const [image] = await settle(localImageProvider.modifyImage({
+      images: ['https://example.com/missing.png'],
+      prompt: 'as a watercolor',
+      size: '1024x1792'
+    }))
+
+    expect(image.url).toMatch(/^data:image\/jpeg;1024x1792;/)
+    expect(image.url).not.toContain('drawImage(')
+  })
+})
+
+describe('localImageProvider.upload', () => {
+  it('returns the file as a data URL and reports completion', async () => {
+    const onProgress = vi.fn()
+
+    const { url } = await localImageProvider.upload(
+      new File(['image bytes'], 'photo.png', { type: 'image/png' }),
+      'uploads/photo.png',
+      { onProgress }
+    )
+
+    expect(url).toBe(`data:image/png;base64,${btoa('image bytes')}`)
+    expect(onProgress).toHaveBeenCalledWith(100)
+  })
+})
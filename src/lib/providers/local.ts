@@ -0,0 +1,206 @@
+import type { ImageProvider, ImageSize, ImageStyle } from '../image-provider'
+
+// Offline provider that paints placeholder artwork on a canvas. The output
+// only depends on the request, so the same prompt and settings always give
+// the same pixels, which keeps demos and tests reproducible.
+
+const SIMULATED_LATENCY_MS = 600
+const MODEL = 'canvas-placeholder'
+
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function createRandom(seed: number) {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function parseSize(size: ImageSize = '1024x1024'): [number, number] {
+  const [width, height] = size.split('x').map(Number)
+  return [width, height]
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'))
+      return
+    }
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(new DOMException('The operation was aborted.', 'AbortError'))
+    }, { once: true })
+  })
+}
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Canvas rendering is not supported in this browser')
+  }
+  return { canvas, ctx }
+}
+
+function drawCaption(ctx: CanvasRenderingContext2D, width: number, height: number, text: string) {
+  const fontSize = Math.round(width / 36)
+  const padding = fontSize
+  ctx.font = `${fontSize}px sans-serif`
+
+  const words = text.split(/\s+/).filter(Boolean)
+  const lines: string[] = []
+  let line = ''
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word
+    if (ctx.measureText(candidate).width > width - padding * 2 && line) {
+      lines.push(line)
+      line = word
+    } else {
+      line = candidate
+    }
+  }
+  if (line) lines.push(line)
+  const visible = lines.slice(0, 3)
+
+  const bandHeight = visible.length * fontSize * 1.4 + padding * 2
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.45)'
+  ctx.fillRect(0, height - bandHeight, width, bandHeight)
+  ctx.fillStyle = '#ffffff'
+  ctx.textBaseline = 'top'
+  visible.forEach((text, index) => {
+    ctx.fillText(text, padding, height - bandHeight + padding + index * fontSize * 1.4)
+  })
+}
+
+function renderGenerated(prompt: string, size: ImageSize | undefined, style: ImageStyle | undefined, seed: number) {
+  const [width, height] = parseSize(size)
+  const { canvas, ctx } = createCanvas(width, height)
+  const random = createRandom(seed)
+  const saturation = style === 'vivid' ? 85 : 45
+  const hue = Math.floor(random() * 360)
+
+  const gradient = ctx.createLinearGradient(0, 0, width, height)
+  gradient.addColorStop(0, `hsl(${hue}, ${saturation}%, 55%)`)
+  gradient.addColorStop(1, `hsl(${(hue + 60 + random() * 120) % 360}, ${saturation}%, 30%)`)
+  ctx.fillStyle = gradient
+  ctx.fillRect(0, 0, width, height)
+
+  const shapes = 8 + Math.floor(random() * 10)
+  for (let i = 0; i < shapes; i++) {
+    ctx.fillStyle = `hsla(${(hue + random() * 180) % 360}, ${saturation}%, ${40 + random() * 40}%, ${0.2 + random() * 0.5})`
+    const x = random() * width
+    const y = random() * height
+    const radius = (0.05 + random() * 0.2) * Math.min(width, height)
+    ctx.beginPath()
+    if (random() > 0.5) {
+      ctx.arc(x, y, radius, 0, Math.PI * 2)
+    } else {
+      ctx.rect(x - radius, y - radius, radius * 2, radius * 2)
+    }
+    ctx.fill()
+  }
+
+  drawCaption(ctx, width, height, prompt)
+  return canvas.toDataURL('image/jpeg', 0.9)
+}
+
+function loadImage(url: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = 'anonymous'
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error(`Failed to load image: ${url}`))
+    img.src = url
+  })
+}
+
+async function renderModified(sourceUrl: string, prompt: string, size: ImageSize | undefined, seed: number) {
+  let source: HTMLImageElement
+  try {
+    source = await loadImage(sourceUrl)
+  } catch {
+    return renderGenerated(prompt, size, 'natural', seed)
+  }
+
+  const width = size ? parseSize(size)[0] : source.naturalWidth
+  const height = size ? parseSize(size)[1] : source.naturalHeight
+  const { canvas, ctx } = createCanvas(width, height)
+  const random = createRandom(seed)
+
+  const scale = Math.max(width / source.naturalWidth, height / source.naturalHeight)
+  const drawWidth = source.naturalWidth * scale
+  const drawHeight = source.naturalHeight * scale
+  ctx.filter = `hue-rotate(${Math.floor(random() * 90) - 45}deg) saturate(${1 + random() * 0.5}) contrast(1.1)`
+  ctx.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight)
+  ctx.filter = 'none'
+
+  drawCaption(ctx, width, height, prompt)
+  try {
+    return canvas.toDataURL('image/jpeg', 0.9)
+  } catch {
+    // The source was served without CORS headers and tainted the canvas
+    return renderGenerated(prompt, size, 'natural', seed)
+  }
+}
+
+// The negative prompt is taken natively: it feeds the seed, so changing it
+// gives different artwork, and leaving it empty keeps earlier seeds intact
+function seedPrompt(prompt: string, negativePrompt?: string) {
+  return negativePrompt?.trim() ? `${prompt}|not:${negativePrompt.trim()}` : prompt
+}
+
+function readAsDataUrl(file: File | Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+export const localImageProvider: ImageProvider = {
+  id: 'local',
+  name: 'Local (offline)',
+
+  async generateImage({ prompt, negativePrompt, size, quality, style, n = 1, signal }) {
+    await wait(SIMULATED_LATENCY_MS, signal)
+    return Array.from({ length: n }, (_, index) => {
+      const seed = hashString(`${seedPrompt(prompt, negativePrompt)}|${size}|${quality}|${style}|${index}`)
+      return {
+        url: renderGenerated(prompt, size, style, seed),
+        request: { model: MODEL, prompt, seed }
+      }
+    })
+  },
+
+  async modifyImage({ images, prompt, negativePrompt, size, quality, n = 1, signal }) {
+    await wait(SIMULATED_LATENCY_MS, signal)
+    return Promise.all(Array.from({ length: n }, async (_, index) => {
+      const seed = hashString(`${images.join(',')}|${seedPrompt(prompt, negativePrompt)}|${size}|${quality}|${index}`)
+      return {
+        url: await renderModified(images[index % images.length], prompt, size, seed),
+        request: { model: MODEL, prompt, seed }
+      }
+    }))
+  },
+
+  async upload(file, _path, options) {
+    const url = await readAsDataUrl(file)
+    options?.onProgress?.(100)
+    return { url }
+  }
+}
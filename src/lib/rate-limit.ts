@@ -0,0 +1,91 @@
+import { JobCancelledError } from './jobs'
+
+// One budget for every request to the image service, whichever tool makes
+// it: requests are spaced to stay within the requests-per-minute setting,
+// and when the service answers with a rate limit anyway every caller backs
+// off until the cooldown is over.
+//
+// The providers sit below the settings module, so settings pushes the limit
+// here instead of this module reading it.
+
+const WINDOW_MS = 60_000
+const MAX_RETRIES = 4
+const BASE_BACKOFF_MS = 2_000
+const MAX_BACKOFF_MS = 60_000
+
+let requestsPerMinute = Infinity
+// Start times of the requests made in the last minute
+let requestTimes: number[] = []
+let cooldownUntil = 0
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new JobCancelledError())
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new JobCancelledError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/** Waits until a request fits in the budget and counts it */
+async function acquireSlot(signal?: AbortSignal) {
+  for (;;) {
+    const now = Date.now()
+    requestTimes = requestTimes.filter((time) => now - time < WINDOW_MS)
+    const delay = Math.max(
+      cooldownUntil - now,
+      requestTimes.length >= requestsPerMinute ? requestTimes[0] + WINDOW_MS - now : 0
+    )
+    if (delay <= 0) {
+      requestTimes.push(now)
+      return
+    }
+    await wait(delay, signal)
+  }
+}
+
+export function setRequestsPerMinute(limit: number) {
+  requestsPerMinute = limit
+}
+
+function getStatus(error: unknown): number | undefined {
+  if (typeof error !== 'object' || error === null) return undefined
+  const { status, details, cause } = error as { status?: unknown; details?: { originalError?: unknown }; cause?: unknown }
+  if (typeof status === 'number') return status
+  // The SDK wraps HTTP errors, keeping the original one in its details
+  return getStatus(details?.originalError) ?? getStatus(cause)
+}
+
+/** Whether the image service turned a request down for being over its rate limit */
+export function isRateLimitError(error: unknown) {
+  if (getStatus(error) === 429) return true
+  return error instanceof Error && /rate.?limit|too many requests|\b429\b/i.test(error.message)
+}
+
+/**
+ * Runs a request to the image service within the shared budget. Requests
+ * that hit a rate limit are retried with exponential backoff, which also
+ * holds back every other request meanwhile.
+ */
+export async function withRateLimit<T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    await acquireSlot(signal)
+    try {
+      return await request()
+    } catch (error) {
+      if (!isRateLimitError(error) || attempt >= MAX_RETRIES) throw error
+      const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt)
+      // Jitter keeps concurrent callers from retrying in lockstep
+      cooldownUntil = Math.max(cooldownUntil, Date.now() + backoff * (0.75 + Math.random() * 0.5))
+    }
+  }
+}
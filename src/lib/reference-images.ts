@@ -0,0 +1,56 @@
+import { getImageProvider } from './image-provider'
+import { enqueueJob } from './jobs'
+import type { ToolId } from './tools'
+
+/** An image a generation should keep the composition or subject of */
+export interface ReferenceImage {
+  id: string
+  name: string
+  /** What the thumbnail shows: an object URL for files, otherwise `url` */
+  previewUrl: string
+  file?: File
+  /** Publicly reachable URL, known once the file is uploaded or when picked from the gallery */
+  url?: string
+}
+
+// The modify endpoint takes a handful of images per request
+export const MAX_REFERENCE_IMAGES = 4
+
+let count = 0
+
+function genId() {
+  count = (count + 1) % Number.MAX_SAFE_INTEGER
+  return `reference-${Date.now()}-${count}`
+}
+
+export function referenceFromFile(file: File): ReferenceImage {
+  return { id: genId(), name: file.name, previewUrl: URL.createObjectURL(file), file }
+}
+
+export function referenceFromUrl(url: string, name: string): ReferenceImage {
+  return { id: genId(), name, previewUrl: url, url }
+}
+
+/**
+ * Uploads the references that are only local files, as queued upload jobs,
+ * and returns every reference with its URL. Uploaded references keep the
+ * URL, so generating again does not upload them twice.
+ */
+export async function uploadReferences(references: ReferenceImage[], tool: ToolId): Promise<Array<ReferenceImage & { url: string }>> {
+  return Promise.all(references.map(async (reference) => {
+    if (reference.url) return { ...reference, url: reference.url }
+    if (!reference.file) throw new Error(`Reference ${reference.name} has no image`)
+    const file = reference.file
+    const { url } = await enqueueJob({
+      kind: 'upload',
+      tool,
+      label: `Upload: ${file.name}`,
+      run: ({ setProgress }) => getImageProvider().upload(
+        file,
+        `references/${reference.id}-${file.name}`,
+        { upsert: true, onProgress: setProgress }
+      )
+    }).promise
+    return { ...reference, url }
+  }))
+}
@@ -0,0 +1,46 @@
+import { fetchWithProgress } from './download'
+import { parseGeneratorParams, toGeneratorSearch } from './generator-params'
+import type { Provenance } from './provenance'
+import { tools, type ToolLocationState } from './tools'
+
+export interface ReproduceTarget {
+  path: string
+  state?: ToolLocationState
+}
+
+/**
+ * Where to go to run a result again with the settings from its provenance.
+ * The generator takes them from the query string, plus its reference images
+ * from router state; the other tools read them from router state, and image
+ * tools get their source image back as a file. Returns null when the
+ * originating tool no longer exists.
+ */
+export async function getReproduceTarget(provenance: Provenance): Promise<ReproduceTarget | null> {
+  const tool = tools.find((t) => t.id === provenance.tool)
+  if (!tool) return null
+
+  if (tool.id === 'generator') {
+    // Go through the parser so values the current tool no longer supports fall back to defaults
+    const params = parseGeneratorParams(new URLSearchParams({
+      prompt: provenance.prompt,
+      negative: provenance.negativePrompt ?? '',
+      size: provenance.params.size ?? '',
+      quality: provenance.params.quality ?? '',
+      style: provenance.params.style ?? '',
+      count: String(provenance.params.n ?? '')
+    }))
+    return {
+      path: `${tool.path}?${toGeneratorSearch(params)}`,
+      state: provenance.sourceImages?.length ? { reproduce: provenance } : undefined
+    }
+  }
+
+  const state: ToolLocationState = { reproduce: provenance }
+  const [source] = provenance.sourceImages ?? []
+  if (tool.inputs.includes('image') && source) {
+    const blob = await fetchWithProgress(source)
+    const extension = blob.type.split('/')[1] || 'png'
+    state.file = new File([blob], `source.${extension}`, { type: blob.type || 'image/png' })
+  }
+  return { path: tool.path, state }
+}
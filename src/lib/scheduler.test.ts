@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { JobCancelledError } from './jobs'
+import { mapConcurrent } from './scheduler'
+
+function deferred<T = void>() {
+  let resolve!: (value: T) => void
+  let reject!: (error: unknown) => void
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+// Lets the workers pick up the next items after a task settles
+const flush = () => new Promise((resolve) => setTimeout(resolve))
+
+describe('mapConcurrent', () => {
+  it('keeps the order of the items whichever task finishes first', async () => {
+    const delays = [30, 0, 10]
+
+    const results = await mapConcurrent(delays, 3, (delay, index) =>
+      new Promise<string>((resolve) => setTimeout(() => resolve(`item ${index}`), delay))
+    )
+
+    expect(results).toEqual(['item 0', 'item 1', 'item 2'])
+  })
+
+  it('runs at most `concurrency` tasks at a time, starting them in order', async () => {
+    const tasks = Array.from({ length: 5 }, () => deferred())
+    const started: number[] = []
+
+    const run = mapConcurrent(tasks, 2, (task, index) => {
+      started.push(index)
+      return task.promise
+    })
+
+    await flush()
+    expect(started).toEqual([0, 1])
+    tasks[1].resolve()
+    await flush()
+    expect(started).toEqual([0, 1, 2])
+    tasks.forEach((task) => task.resolve())
+    await run
+    expect(started).toEqual([0, 1, 2, 3, 4])
+  })
+
+  it('rejects with the first error and starts nothing after it', async () => {
+    const started: number[] = []
+
+    const run = mapConcurrent([0, 1, 2, 3], 2, async (item) => {
+      started.push(item)
+      await flush()
+      if (item === 0) throw new Error('boom')
+      return item
+    })
+
+    await expect(run).rejects.toThrow('boom')
+    await flush()
+    expect(started).toEqual([0, 1])
+  })
+
+  it('stops starting tasks once the signal aborts', async () => {
+    const controller = new AbortController()
+    const started: number[] = []
+
+    const run = mapConcurrent([0, 1, 2], 1, async (item) => {
+      started.push(item)
+      if (item === 0) controller.abort()
+      return item
+    }, controller.signal)
+
+    await expect(run).rejects.toBeInstanceOf(JobCancelledError)
+    expect(started).toEqual([0])
+  })
+
+  it('resolves to an empty list when there are no items', async () => {
+    expect(await mapConcurrent([], 4, async () => 1)).toEqual([])
+  })
+})
@@ -0,0 +1,37 @@
+import { JobCancelledError } from './jobs'
+
+/**
+ * Runs `task` for every item with at most `concurrency` of them in flight,
+ * starting them in order. Results keep the order of `items`, whichever task
+ * finishes first. No new tasks start once `signal` aborts or a task throws,
+ * and the first error a task throws rejects the whole run.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+  // Set by the first error, so the other workers finish what they started and stop
+  let failed = false
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      if (signal?.aborted) {
+        throw new JobCancelledError()
+      }
+      const index = next++
+      try {
+        results[index] = await task(items[index], index)
+      } catch (error) {
+        failed = true
+        throw error
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker))
+  return results
+}
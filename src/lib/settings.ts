@@ -0,0 +1,163 @@
+import { z } from 'zod'
+import { createStore } from './store'
+import { setRequestsPerMinute } from './rate-limit'
+import {
+  imageQualities,
+  imageSizes,
+  imageStyles,
+  type ImageQuality,
+  type ImageSize,
+  type ImageStyle
+} from './image-provider'
+
+export const upscaleScales = ['2x', '4x', '8x'] as const
+export const backgroundModes = ['remove', 'blur', 'replace-white', 'replace-black'] as const
+export const downloadFormats = ['png', 'jpeg', 'webp'] as const
+
+export type UpscaleScale = typeof upscaleScales[number]
+export type BackgroundMode = typeof backgroundModes[number]
+export type DownloadFormat = typeof downloadFormats[number]
+
+export interface Settings {
+  generator: {
+    size: ImageSize
+    quality: ImageQuality
+    style: ImageStyle
+    count: number
+  }
+  batch: {
+    size: ImageSize
+    quality: ImageQuality
+    style: ImageStyle
+    /** Number of empty variation fields a new batch starts with */
+    count: number
+    /** Most prompts a batch may expand to */
+    maxPrompts: number
+    /** Images a batch generates at the same time */
+    concurrency: number
+  }
+  variations: {
+    /** Images a Variations action makes at once */
+    count: number
+  }
+  upscaler: {
+    scale: UpscaleScale
+  }
+  backgroundRemover: {
+    mode: BackgroundMode
+  }
+  uploads: {
+    maxSizeMb: number
+  }
+  requests: {
+    /** Budget for requests to the image service, shared by all tools */
+    perMinute: number
+  }
+  downloads: {
+    /** Filename template, see `formatFilename` in ./download */
+    filenamePattern: string
+    /** Filename template for images inside ZIP archives */
+    archivePattern: string
+    format: DownloadFormat
+  }
+  autoSaveToGallery: boolean
+}
+
+export const defaultSettings: Settings = {
+  generator: { size: '1024x1024', quality: 'high', style: 'natural', count: 1 },
+  batch: { size: '1024x1024', quality: 'high', style: 'natural', count: 1, maxPrompts: 10, concurrency: 2 },
+  variations: { count: 4 },
+  upscaler: { scale: '2x' },
+  backgroundRemover: { mode: 'remove' },
+  uploads: { maxSizeMb: 10 },
+  requests: { perMinute: 30 },
+  downloads: { filenamePattern: '{type}-{name}-{prompt}-{id}', archivePattern: '{index}-{prompt}', format: 'png' },
+  autoSaveToGallery: true
+}
+
+export const MAX_UPLOAD_SIZE_MB = 50
+export const MAX_BATCH_PROMPTS = 200
+export const MAX_BATCH_CONCURRENCY = 6
+export const MAX_REQUESTS_PER_MINUTE = 600
+
+const STORAGE_KEY = 'settings'
+
+// Every field falls back to its default on its own, so settings saved by an
+// older version keep whatever is still valid
+const settingsSchema = z.object({
+  generator: z.object({
+    size: z.enum(imageSizes).catch(defaultSettings.generator.size),
+    quality: z.enum(imageQualities).catch(defaultSettings.generator.quality),
+    style: z.enum(imageStyles).catch(defaultSettings.generator.style),
+    count: z.number().int().min(1).max(10).catch(defaultSettings.generator.count)
+  }).catch(defaultSettings.generator),
+  batch: z.object({
+    size: z.enum(imageSizes).catch(defaultSettings.batch.size),
+    quality: z.enum(imageQualities).catch(defaultSettings.batch.quality),
+    style: z.enum(imageStyles).catch(defaultSettings.batch.style),
+    count: z.number().int().min(1).max(10).catch(defaultSettings.batch.count),
+    maxPrompts: z.number().int().min(1).max(MAX_BATCH_PROMPTS).catch(defaultSettings.batch.maxPrompts),
+    concurrency: z.number().int().min(1).max(MAX_BATCH_CONCURRENCY).catch(defaultSettings.batch.concurrency)
+  }).catch(defaultSettings.batch),
+  variations: z.object({
+    count: z.number().int().min(1).max(10).catch(defaultSettings.variations.count)
+  }).catch(defaultSettings.variations),
+  upscaler: z.object({
+    scale: z.enum(upscaleScales).catch(defaultSettings.upscaler.scale)
+  }).catch(defaultSettings.upscaler),
+  backgroundRemover: z.object({
+    mode: z.enum(backgroundModes).catch(defaultSettings.backgroundRemover.mode)
+  }).catch(defaultSettings.backgroundRemover),
+  uploads: z.object({
+    maxSizeMb: z.number().min(1).max(MAX_UPLOAD_SIZE_MB).catch(defaultSettings.uploads.maxSizeMb)
+  }).catch(defaultSettings.uploads),
+  requests: z.object({
+    perMinute: z.number().int().min(1).max(MAX_REQUESTS_PER_MINUTE).catch(defaultSettings.requests.perMinute)
+  }).catch(defaultSettings.requests),
+  downloads: z.object({
+    filenamePattern: z.string().catch(defaultSettings.downloads.filenamePattern),
+    archivePattern: z.string().catch(defaultSettings.downloads.archivePattern),
+    format: z.enum(downloadFormats).catch(defaultSettings.downloads.format)
+  }).catch(defaultSettings.downloads),
+  autoSaveToGallery: z.boolean().catch(defaultSettings.autoSaveToGallery)
+})
+
+function loadSettings(): Settings {
+  try {
+    return settingsSchema.parse(JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}'))
+  } catch {
+    return defaultSettings
+  }
+}
+
+export const settingsStore = createStore<Settings>(loadSettings())
+
+setRequestsPerMinute(settingsStore.get().requests.perMinute)
+settingsStore.subscribe((settings) => setRequestsPerMinute(settings.requests.perMinute))
+
+export function getSettings(): Settings {
+  return settingsStore.get()
+}
+
+type SettingsChanges = { [K in keyof Settings]?: Settings[K] extends object ? Partial<Settings[K]> : Settings[K] }
+
+export function updateSettings(changes: SettingsChanges) {
+  const current = settingsStore.get()
+  const merged = { ...current } as Record<string, unknown>
+  for (const [key, value] of Object.entries(changes)) {
+    const previous = current[key as keyof Settings]
+    merged[key] = typeof previous === 'object' ? { ...previous, ...(value as object) } : value
+  }
+  const next = settingsSchema.parse(merged)
+  settingsStore.set(next)
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  } catch (error) {
+    console.error('Error saving settings:', error)
+  }
+}
+
+export function resetSettings() {
+  settingsStore.set(defaultSettings)
+  localStorage.removeItem(STORAGE_KEY)
+}
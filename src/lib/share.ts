@@ -0,0 +1,30 @@
+export type ShareResult = 'shared' | 'copied' | 'cancelled'
+
+/** Whether the image lives at a public address others can open */
+export function isHostedUrl(url: string) {
+  return /^https?:\/\//i.test(url)
+}
+
+/**
+ * Shares the hosted URL of an image through the Web Share API, or copies it
+ * where the browser cannot share. Dismissing the share sheet is not an
+ * error and copies nothing.
+ */
+export async function shareImageUrl(url: string, prompt: string): Promise<ShareResult> {
+  if (!isHostedUrl(url)) {
+    throw new Error('This image is only stored locally and has no link to share.')
+  }
+
+  if (navigator.share) {
+    try {
+      await navigator.share({ title: 'AI Generated Image', text: prompt, url })
+      return 'shared'
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return 'cancelled'
+      // Sharing can be refused, e.g. outside a user gesture; copying still works
+    }
+  }
+
+  await navigator.clipboard.writeText(url)
+  return 'copied'
+}
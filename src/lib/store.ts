@@ -0,0 +1,33 @@
+type Listener<T> = (state: T) => void
+
+export interface Store<T> {
+  get(): T
+  set(next: T | ((prev: T) => T)): void
+  subscribe(listener: Listener<T>): () => void
+}
+
+/**
+ * Minimal module-level state container. State kept here outlives the
+ * components that render it, so switching tools does not drop results.
+ */
+export function createStore<T>(initialState: T): Store<T> {
+  const listeners: Listener<T>[] = []
+  let memoryState = initialState
+
+  return {
+    get: () => memoryState,
+    set(next) {
+      memoryState = typeof next === 'function' ? (next as (prev: T) => T)(memoryState) : next
+      listeners.forEach((listener) => listener(memoryState))
+    },
+    subscribe(listener) {
+      listeners.push(listener)
+      return () => {
+        const index = listeners.indexOf(listener)
+        if (index > -1) {
+          listeners.splice(index, 1)
+        }
+      }
+    }
+  }
+}
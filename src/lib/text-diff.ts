@@ -0,0 +1,51 @@
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+/**
+ * Word-level diff of two texts, from their longest common subsequence.
+ * Whitespace is kept with the word before it, and words that match take
+ * their text from `after`, so joining the `same` and `added` parts gives
+ * back the second text.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.match(/\S+\s*/g) ?? []
+  const b = after.match(/\S+\s*/g) ?? []
+  // Trailing punctuation is ignored, so a word that gained a comma still matches
+  const word = (text: string) => text.trim().replace(/[.,;:!?]+$/, '').toLowerCase()
+  const same = (i: number, j: number) => word(a[i]) === word(b[j])
+
+  // lengths[i][j] is the common subsequence length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(i, j) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1]
+    if (last?.type === type) {
+      last.text += text
+    } else {
+      parts.push({ type, text })
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && same(i, j)) {
+      push('same', b[j])
+      i++
+      j++
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      push('removed', a[i++])
+    } else {
+      push('added', b[j++])
+    }
+  }
+  return parts
+}
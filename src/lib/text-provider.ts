@@ -0,0 +1,50 @@
+import { blinkTextProvider } from './providers/blink'
+import { localTextProvider } from './providers/local-text'
+
+export interface GenerateTextOptions {
+  /** Instructions the model follows for the whole request */
+  system: string
+  prompt: string
+  /** Publicly reachable URLs of images for the model to look at */
+  images?: string[]
+  temperature?: number
+  signal?: AbortSignal
+}
+
+export interface TextProvider {
+  id: string
+  name: string
+  generateText(options: GenerateTextOptions): Promise<string>
+}
+
+export const textProviders: TextProvider[] = [blinkTextProvider, localTextProvider]
+
+const STORAGE_KEY = 'text-provider'
+
+function getInitialProvider(): TextProvider {
+  let requested: string | null | undefined = import.meta.env.VITE_TEXT_PROVIDER
+  try {
+    requested = localStorage.getItem(STORAGE_KEY) ?? requested
+  } catch {
+    // Ignore storage access errors and fall back to the build default
+  }
+  return textProviders.find((provider) => provider.id === requested) ?? blinkTextProvider
+}
+
+let activeProvider: TextProvider | null = null
+
+export function getTextProvider(): TextProvider {
+  if (!activeProvider) {
+    activeProvider = getInitialProvider()
+  }
+  return activeProvider
+}
+
+export function setTextProvider(id: string) {
+  const provider = textProviders.find((p) => p.id === id)
+  if (!provider) {
+    throw new Error(`Unknown text provider: ${id}`)
+  }
+  activeProvider = provider
+  localStorage.setItem(STORAGE_KEY, id)
+}
@@ -0,0 +1,172 @@
+import type { ComponentType } from 'react'
+import { Images, Layers, ScanText, Scissors, Sparkles, Wand2, Zap } from 'lucide-react'
+import { ImageGenerator } from '../components/ImageGenerator'
+import { UnblurTool } from '../components/UnblurTool'
+import { BatchGenerator } from '../components/BatchGenerator'
+import { UpscalerTool } from '../components/UpscalerTool'
+import { BackgroundRemover } from '../components/BackgroundRemover'
+import { DescribeTool } from '../components/DescribeTool'
+import { Gallery } from '../components/Gallery'
+import type { GalleryImageType } from './gallery'
+import type { Provenance } from './provenance'
+
+export type ToolId = 'generator' | 'batch' | 'upscaler' | 'unblur' | 'background-remover' | 'describe' | 'gallery'
+
+/** What a tool takes to start working */
+export type ToolInput = 'prompt' | 'image'
+
+/** Router state used to hand an input to a tool when navigating to it */
+export interface ToolLocationState {
+  file?: File
+  /** Settings of an earlier result to start from, see ./reproduce */
+  reproduce?: Provenance
+  /** Prompt to start from, e.g. one written from an image */
+  prompt?: string
+}
+
+export interface ToolDefinition {
+  id: ToolId
+  title: string
+  /** Label used in the sidebar and other compact places */
+  shortTitle: string
+  description: string
+  icon: typeof Sparkles
+  /** Tailwind gradient classes for the tool's accent */
+  color: string
+  badge?: string
+  /** Where the tool lives; links to the tool point here */
+  path: string
+  /** Route pattern when it differs from `path`, e.g. to accept params */
+  routePath?: string
+  component: ComponentType
+  inputs: ToolInput[]
+  /** Gallery record types the tool produces */
+  outputs: GalleryImageType[]
+  /** Extra search terms for the command palette */
+  keywords?: string[]
+}
+
+/**
+ * Every tool in the suite. The sidebar, dashboard, command palette and
+ * routes are all generated from this list, so adding a tool only takes an
+ * entry here.
+ */
+export const tools: ToolDefinition[] = [
+  {
+    id: 'generator',
+    title: 'AI Image Generator',
+    shortTitle: 'Generator',
+    description: 'Create high-quality images and clipart from text prompts',
+    icon: Sparkles,
+    color: 'from-purple-500 to-pink-500',
+    badge: 'Free',
+    path: '/generate',
+    component: ImageGenerator,
+    inputs: ['prompt'],
+    outputs: ['generated'],
+    keywords: ['create', 'text to image', 'prompt']
+  },
+  {
+    id: 'unblur',
+    title: 'Unblur Tool',
+    shortTitle: 'Unblur',
+    description: 'Enhance and sharpen blurry images with AI',
+    icon: Wand2,
+    color: 'from-blue-500 to-cyan-500',
+    badge: 'Free',
+    path: '/unblur',
+    component: UnblurTool,
+    inputs: ['image'],
+    outputs: ['unblurred'],
+    keywords: ['sharpen', 'enhance', 'deblur']
+  },
+  {
+    id: 'batch',
+    title: 'Batch Generator',
+    shortTitle: 'Batch',
+    description: 'Generate multiple images at once (1-10 images)',
+    icon: Layers,
+    color: 'from-green-500 to-emerald-500',
+    badge: 'Free',
+    path: '/batch',
+    component: BatchGenerator,
+    inputs: ['prompt'],
+    outputs: ['batch'],
+    keywords: ['variations', 'multiple']
+  },
+  {
+    id: 'upscaler',
+    title: 'AI Upscaler',
+    shortTitle: 'Upscaler',
+    description: 'Increase image resolution up to 8x with AI',
+    icon: Zap,
+    color: 'from-orange-500 to-red-500',
+    badge: 'Free',
+    path: '/upscale',
+    component: UpscalerTool,
+    inputs: ['image'],
+    outputs: ['upscaled'],
+    keywords: ['resolution', 'enlarge', 'resize']
+  },
+  {
+    id: 'background-remover',
+    title: 'Background Remover',
+    shortTitle: 'Background',
+    description: 'Remove backgrounds with precision edge detection',
+    icon: Scissors,
+    color: 'from-indigo-500 to-purple-500',
+    badge: 'Free',
+    path: '/background',
+    component: BackgroundRemover,
+    inputs: ['image'],
+    outputs: ['background-removed'],
+    keywords: ['cutout', 'transparent', 'remove bg']
+  },
+  {
+    id: 'describe',
+    title: 'Image to Prompt',
+    shortTitle: 'Describe',
+    description: 'Turn a reference image into a reusable prompt and style tags',
+    icon: ScanText,
+    color: 'from-teal-500 to-sky-500',
+    badge: 'Free',
+    path: '/describe',
+    component: DescribeTool,
+    inputs: ['image'],
+    outputs: [],
+    keywords: ['caption', 'reverse prompt', 'reference', 'interrogate']
+  },
+  {
+    id: 'gallery',
+    title: 'Gallery',
+    shortTitle: 'Gallery',
+    description: 'View and manage your generated images',
+    icon: Images,
+    color: 'from-gray-500 to-slate-500',
+    path: '/gallery',
+    routePath: '/gallery/:id?',
+    component: Gallery,
+    inputs: [],
+    outputs: [],
+    keywords: ['history', 'favorites', 'images']
+  }
+]
+
+export function getTool(id: ToolId): ToolDefinition {
+  return tools.find((tool) => tool.id === id)!
+}
+
+export function getToolsAccepting(input: ToolInput): ToolDefinition[] {
+  return tools.filter((tool) => tool.inputs.includes(input))
+}
+
+/**
+ * Where to go to start a prompt tool with a prompt. The generator takes it
+ * from the query string, so its other settings keep their defaults.
+ */
+export function getPromptTarget(tool: ToolDefinition, prompt: string): { path: string; state?: ToolLocationState } {
+  if (tool.id === 'generator') {
+    return { path: `${tool.path}?${new URLSearchParams({ prompt })}` }
+  }
+  return { path: tool.path, state: { prompt } }
+}
@@ -0,0 +1,96 @@
+import { fetchResultBlob } from './download'
+import { addGalleryImages, getGalleryImages, loadGalleryImages, type NewGalleryImage } from './gallery'
+import { getImageProvider, imageQualities, imageSizes, pickOption } from './image-provider'
+import { enqueueJob } from './jobs'
+import { latencyKey } from './latency'
+import { createProvenance, type Provenance } from './provenance'
+import { createStore } from './store'
+import type { ToolId } from './tools'
+
+/** A new image made from another one, as saved to the gallery */
+export type Variation = NewGalleryImage & { createdAt: Date; provenance: Provenance }
+
+/** Ids of the images that variations are being made of */
+export const pendingVariationsStore = createStore<string[]>([])
+
+/**
+ * Makes `count` variations of an image from its prompt through the modify
+ * endpoint, as one queued job. The variations are always saved to the
+ * gallery with the image as their parent, and the image is saved too when
+ * it is not there yet, so the gallery can link them both ways.
+ */
+export async function createVariations(parent: NewGalleryImage, count: number, tool: ToolId): Promise<Variation[]> {
+  // Gallery images may carry sizes or qualities from older versions, which the provider would reject
+  const size = pickOption(imageSizes, parent.size)
+  const quality = pickOption(imageQualities, parent.quality)
+  pendingVariationsStore.set((prev) => [...prev, parent.id])
+
+  try {
+    const { variations, blobs } = await enqueueJob({
+      kind: 'modify',
+      tool,
+      label: `Variations: ${parent.prompt}`,
+      run: async ({ signal, setPhase, setProgress }) => {
+        setPhase('generating', {
+          label: `Generating ${count} variation${count > 1 ? 's' : ''}`,
+          latencyKey: latencyKey('variations', quality)
+        })
+        const provider = getImageProvider()
+        const startedAt = performance.now()
+        const results = await provider.modifyImage({
+          images: [parent.url],
+          prompt: parent.prompt,
+          negativePrompt: parent.negativePrompt,
+          size,
+          quality,
+          n: count,
+          signal
+        })
+        const latencyMs = Math.round(performance.now() - startedAt)
+
+        setPhase('downloading')
+        const blobs: (Blob | undefined)[] = []
+        for (const [index, img] of results.entries()) {
+          blobs.push(await fetchResultBlob(img.url, {
+            signal,
+            onProgress: (percent) => setProgress((index * 100 + percent) / results.length)
+          }))
+        }
+
+        const variations = results.map((img): Variation => ({
+          id: crypto.randomUUID(),
+          url: img.url,
+          prompt: parent.prompt,
+          negativePrompt: parent.negativePrompt,
+          type: 'generated',
+          size: parent.size,
+          quality: parent.quality,
+          style: parent.style,
+          createdAt: new Date(),
+          // Reproduce replays generator records with source images as a modify,
+          // whichever tool the variations were started from
+          provenance: createProvenance(provider, img, {
+            tool: 'generator',
+            operation: 'modify',
+            prompt: parent.prompt,
+            negativePrompt: parent.negativePrompt,
+            params: { size, quality, n: count },
+            latencyMs,
+            sourceImages: [parent.url],
+            parentId: parent.id
+          })
+        }))
+        return { variations, blobs }
+      }
+    }).promise
+
+    await loadGalleryImages()
+    if (!getGalleryImages().some((image) => image.id === parent.id)) {
+      addGalleryImages([parent])
+    }
+    addGalleryImages(variations.map((variation, index) => ({ ...variation, blob: blobs[index] })))
+    return variations
+  } finally {
+    pendingVariationsStore.set((prev) => prev.filter((id) => id !== parent.id))
+  }
+}
@@ -0,0 +1,70 @@
+import { z } from 'zod'
+import { createStore } from './store'
+
+// A wildcard is a named list of values that `__name__` in a dynamic prompt
+// picks from, see ./dynamic-prompts. Names may use / to group related lists.
+export const WILDCARD_NAME = /^[\w-]+(?:\/[\w-]+)*$/
+
+const wildcardSchema = z.object({
+  name: z.string().regex(WILDCARD_NAME),
+  values: z.array(z.string())
+})
+
+export type Wildcard = z.infer<typeof wildcardSchema>
+
+const STORAGE_KEY = 'wildcards'
+
+function loadWildcards(): Wildcard[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
+    if (!Array.isArray(stored)) return []
+    return stored.flatMap((entry) => {
+      const result = wildcardSchema.safeParse(entry)
+      return result.success ? [result.data] : []
+    })
+  } catch {
+    return []
+  }
+}
+
+/** Wildcards sorted by name */
+export const wildcardsStore = createStore<Wildcard[]>(loadWildcards())
+
+function persist(wildcards: Wildcard[]) {
+  const sorted = [...wildcards].sort((a, b) => a.name.localeCompare(b.name))
+  wildcardsStore.set(sorted)
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sorted))
+  } catch (error) {
+    console.error('Error saving wildcards:', error)
+  }
+}
+
+/** Turns wildcard file contents into values: one per line, skipping blank lines and # comments */
+export function parseWildcardValues(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+}
+
+/** Wildcard name for a file, e.g. `hair colors.txt` becomes `hair-colors` */
+export function getWildcardName(filename: string): string {
+  return filename
+    .replace(/\.[^.]+$/, '')
+    .trim()
+    .replace(/[^\w/-]+/g, '-')
+    .replace(/^[-/]+|[-/]+$/g, '')
+}
+
+/** Adds a wildcard or replaces the values of the one with the same name */
+export function saveWildcard(wildcard: Wildcard) {
+  if (!WILDCARD_NAME.test(wildcard.name)) {
+    throw new Error(`Invalid wildcard name: ${wildcard.name}`)
+  }
+  persist([wildcard, ...wildcardsStore.get().filter((w) => w.name !== wildcard.name)])
+}
+
+export function deleteWildcard(name: string) {
+  persist(wildcardsStore.get().filter((wildcard) => wildcard.name !== name))
+}
@@ -0,0 +1,89 @@
+// @vitest-environment node
+// Node's Blob, unlike jsdom's, can be read back as an ArrayBuffer
+import { describe, expect, it } from 'vitest'
+import { createZip } from './zip'
+
+interface ReadEntry {
+  name: string
+  text: string
+  crc: number
+  flags: number
+  time: number
+  date: number
+}
+
+// Reads a stored (uncompressed) archive back through its central directory
+async function readZip(blob: Blob): Promise<ReadEntry[]> {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  const view = new DataView(bytes.buffer)
+  const decoder = new TextDecoder()
+  const end = bytes.length - 22
+  expect(view.getUint32(end, true)).toBe(0x06054b50)
+  const count = view.getUint16(end + 10, true)
+  let position = view.getUint32(end + 16, true)
+
+  const entries: ReadEntry[] = []
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50)
+    const nameLength = view.getUint16(position + 28, true)
+    const offset = view.getUint32(position + 42, true)
+    const size = view.getUint32(position + 24, true)
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50)
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true)
+    entries.push({
+      name: decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength)),
+      text: decoder.decode(bytes.subarray(dataStart, dataStart + size)),
+      crc: view.getUint32(position + 16, true),
+      flags: view.getUint16(position + 8, true),
+      time: view.getUint16(position + 12, true),
+      date: view.getUint16(position + 14, true)
+    })
+    position += 46 + nameLength
+  }
+  return entries
+}
+
+describe('createZip', () => {
+  it('stores every entry with its name and contents', async () => {
+    const zip = await createZip([
+      { name: 'images/001-cat.png', data: new Blob(['cat']) },
+      { name: 'metadata.json', data: new Blob(['{"count":1}']) }
+    ])
+
+    expect(zip.type).toBe('application/zip')
+    expect((await readZip(zip)).map(({ name, text }) => ({ name, text }))).toEqual([
+      { name: 'images/001-cat.png', text: 'cat' },
+      { name: 'metadata.json', text: '{"count":1}' }
+    ])
+  })
+
+  it('writes the CRC-32 of the contents', async () => {
+    const [entry] = await readZip(await createZip([{ name: 'hello.txt', data: new Blob(['hello']) }]))
+
+    expect(entry.crc).toBe(0x3610a686)
+  })
+
+  it('marks names as UTF-8', async () => {
+    const [entry] = await readZip(await createZip([{ name: 'café – 日本.txt', data: new Blob(['x']) }]))
+
+    expect(entry.name).toBe('café – 日本.txt')
+    expect(entry.flags & 0x0800).toBe(0x0800)
+  })
+
+  it('records the modification time in MS-DOS format', async () => {
+    const [entry] = await readZip(await createZip([
+      { name: 'a.txt', data: new Blob(['a']), modifiedAt: new Date(2024, 4, 17, 13, 45, 30) }
+    ]))
+
+    expect(entry.date).toBe(((2024 - 1980) << 9) | (5 << 5) | 17)
+    expect(entry.time).toBe((13 << 11) | (45 << 5) | 15)
+  })
+
+  it('writes an empty archive when there are no entries', async () => {
+    const zip = await createZip([])
+
+    expect(zip.size).toBe(22)
+    expect(await readZip(zip)).toEqual([])
+  })
+})
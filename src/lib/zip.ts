@@ -0,0 +1,126 @@
+// Minimal ZIP writer. Entries are stored without compression, since images
+// are compressed already, and the archive is assembled from Blob parts so
+// file contents are never copied into one large buffer. It does not write
+// ZIP64 records, so archives are limited to 4 GB and 65535 entries.
+
+export interface ZipEntry {
+  name: string
+  data: Blob
+  modifiedAt?: Date
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time, which ZIP headers use, in local time
+function dosDateTime(date: Date) {
+  const year = Math.max(1980, date.getFullYear())
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+// Bit 11 marks file names as UTF-8
+const UTF8_FLAG = 0x0800
+const VERSION = 20
+
+interface WrittenEntry {
+  name: Uint8Array
+  crc: number
+  size: number
+  offset: number
+  time: number
+  date: number
+}
+
+function localHeader(entry: WrittenEntry) {
+  const header = new DataView(new ArrayBuffer(30))
+  header.setUint32(0, 0x04034b50, true)
+  header.setUint16(4, VERSION, true)
+  header.setUint16(6, UTF8_FLAG, true)
+  header.setUint16(8, 0, true) // stored
+  header.setUint16(10, entry.time, true)
+  header.setUint16(12, entry.date, true)
+  header.setUint32(14, entry.crc, true)
+  header.setUint32(18, entry.size, true)
+  header.setUint32(22, entry.size, true)
+  header.setUint16(26, entry.name.length, true)
+  header.setUint16(28, 0, true)
+  return header
+}
+
+function centralHeader(entry: WrittenEntry) {
+  const header = new DataView(new ArrayBuffer(46))
+  header.setUint32(0, 0x02014b50, true)
+  header.setUint16(4, VERSION, true)
+  header.setUint16(6, VERSION, true)
+  header.setUint16(8, UTF8_FLAG, true)
+  header.setUint16(10, 0, true)
+  header.setUint16(12, entry.time, true)
+  header.setUint16(14, entry.date, true)
+  header.setUint32(16, entry.crc, true)
+  header.setUint32(20, entry.size, true)
+  header.setUint32(24, entry.size, true)
+  header.setUint16(28, entry.name.length, true)
+  // Extra field, comment, disk number and attributes stay zero
+  header.setUint32(42, entry.offset, true)
+  return header
+}
+
+function endOfCentralDirectory(count: number, size: number, offset: number) {
+  const record = new DataView(new ArrayBuffer(22))
+  record.setUint32(0, 0x06054b50, true)
+  record.setUint16(8, count, true)
+  record.setUint16(10, count, true)
+  record.setUint32(12, size, true)
+  record.setUint32(16, offset, true)
+  return record
+}
+
+/** Packs the entries into a ZIP archive, reading one entry at a time */
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder()
+  const parts: BlobPart[] = []
+  const written: WrittenEntry[] = []
+  let offset = 0
+
+  for (const { name, data, modifiedAt } of entries) {
+    const entry: WrittenEntry = {
+      name: encoder.encode(name),
+      crc: crc32(new Uint8Array(await data.arrayBuffer())),
+      size: data.size,
+      offset,
+      ...dosDateTime(modifiedAt ?? new Date())
+    }
+    parts.push(localHeader(entry), entry.name, data)
+    offset += 30 + entry.name.length + entry.size
+    written.push(entry)
+  }
+
+  let directorySize = 0
+  for (const entry of written) {
+    parts.push(centralHeader(entry), entry.name)
+    directorySize += 46 + entry.name.length
+  }
+  parts.push(endOfCentralDirectory(written.length, directorySize, offset))
+
+  return new Blob(parts, { type: 'application/zip' })
+}
@@ -0,0 +1,2 @@
+// IndexedDB for the asset store, which jsdom does not provide
+import 'fake-indexeddb/auto'
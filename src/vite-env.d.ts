@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Id of the image provider to use by default ('blink' or 'local') */
+  readonly VITE_IMAGE_PROVIDER?: string
+  /** Id of the text provider to use by default ('blink' or 'local') */
+  readonly VITE_TEXT_PROVIDER?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}